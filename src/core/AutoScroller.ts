@@ -0,0 +1,143 @@
+// src/core/AutoScroller.ts
+
+import { clamp, getEdgeDistances, getEdgeZones } from '../utils'
+import type { AutoScrollConfig } from './types'
+
+/**
+ * Scrolls the scrollable ancestors of an element while the pointer rests near their edges
+ * Speed grows the closer the pointer gets to an edge, the nearest ancestor that can still scroll wins
+ */
+export class AutoScroller
+{
+  private readonly threshold: number
+  private readonly speed: number
+  private readonly onScroll: (scroller: Element, deltaX: number, deltaY: number) => void
+
+  private scrollers: Element[] = []
+  private pointer: { x: number; y: number } | null = null
+  private frameId: number | null = null
+
+  constructor(config: AutoScrollConfig, onScroll: (scroller: Element, deltaX: number, deltaY: number) => void)
+  {
+    this.threshold = config.threshold ?? 40
+    this.speed = config.speed ?? 15
+    this.onScroll = onScroll
+
+    this.step = this.step.bind(this)
+  }
+
+  /**
+   * Check if an element scrolls its overflow on either axis
+   */
+  static isScrollable(element: Element): boolean
+  {
+    const style = window.getComputedStyle(element)
+    const scrolls = (overflow: string) => overflow === 'auto' || overflow === 'scroll'
+
+    return (
+      (scrolls(style.overflowX) && element.scrollWidth > element.clientWidth) ||
+      (scrolls(style.overflowY) && element.scrollHeight > element.clientHeight)
+    )
+  }
+
+  /**
+   * Start watching the scrollable ancestors of the element, nearest first
+   */
+  start(element: HTMLElement): void
+  {
+    this.stop()
+
+    for (let node = element.parentElement; node; node = node.parentElement) {
+      if (AutoScroller.isScrollable(node)) this.scrollers.push(node)
+    }
+
+    const page = element.ownerDocument.scrollingElement
+    if (page && !this.scrollers.includes(page)) {
+      this.scrollers.push(page)
+    }
+
+    if (typeof requestAnimationFrame !== 'undefined') {
+      this.frameId = requestAnimationFrame(this.step)
+    }
+  }
+
+  /**
+   * Update the pointer position in screen coordinates
+   */
+  update(clientX: number, clientY: number): void
+  {
+    this.pointer = { x: clientX, y: clientY }
+  }
+
+  /**
+   * Stop scrolling and forget the ancestors
+   */
+  stop(): void
+  {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+      this.frameId = null
+    }
+
+    this.scrollers = []
+    this.pointer = null
+  }
+
+  /**
+   * Scroll once per frame while the pointer is inside an edge zone
+   */
+  private step(): void
+  {
+    this.frameId = requestAnimationFrame(this.step)
+
+    if (!this.pointer) return
+
+    for (const scroller of this.scrollers) {
+      const { deltaX, deltaY } = this.getVelocity(scroller, this.pointer)
+      if (!deltaX && !deltaY) continue
+
+      const left = scroller.scrollLeft
+      const top = scroller.scrollTop
+
+      scroller.scrollLeft = left + deltaX
+      scroller.scrollTop = top + deltaY
+
+      const scrolledX = scroller.scrollLeft - left
+      const scrolledY = scroller.scrollTop - top
+
+      // Already at the end, let an outer ancestor take over
+      if (!scrolledX && !scrolledY) continue
+
+      this.onScroll(scroller, scrolledX, scrolledY)
+      return
+    }
+  }
+
+  /**
+   * Get scroll speed per axis, proportional to how deep the pointer is in an edge zone
+   */
+  private getVelocity(scroller: Element, pointer: { x: number; y: number }): { deltaX: number; deltaY: number }
+  {
+    const isPage = scroller === scroller.ownerDocument.scrollingElement
+    const rect = isPage
+      ? { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight }
+      : scroller.getBoundingClientRect()
+
+    const point = {
+      top: pointer.y - rect.top,
+      bottom: pointer.y - rect.top,
+      left: pointer.x - rect.left,
+      right: pointer.x - rect.left
+    }
+
+    const zones = getEdgeZones(point, rect.width, rect.height, this.threshold)
+    const distances = getEdgeDistances(point, rect.width, rect.height)
+    // Whole pixels, browsers may drop fractional scroll offsets
+    const depth = (distance: number) => Math.max(1, Math.round(clamp(1 - distance / this.threshold, 0, 1) * this.speed))
+
+    return {
+      deltaX: zones.left ? -depth(distances.left) : zones.right ? depth(distances.right) : 0,
+      deltaY: zones.top ? -depth(distances.top) : zones.bottom ? depth(distances.bottom) : 0
+    }
+  }
+}
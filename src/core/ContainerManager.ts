@@ -1,21 +1,49 @@
 // src/core/ContainerManager.ts
 
 import { type StateInterface, clamp, deepMerge, getState, getViewportDimensions } from '../utils'
-import { computed, effect, reactive } from '@alekstar79/reactive-event-system'
+import { batch, computed, effect, reactive } from '@alekstar79/reactive-event-system'
 import ReactiveEventSystem from '@alekstar79/reactive-event-system'
+import { AutoScroller } from './AutoScroller'
+import { FrameScheduler } from './FrameScheduler'
+import { GeometryEngine } from './GeometryEngine'
+import { History } from './History'
+import { PointerInput } from './PointerInput'
 import {
+  AnimationOptions,
   AutoAdjustConfig,
+  AutoScrollConfig,
+  BeforeHook,
+  BeforeHookName,
   Boundaries,
   ContainerManagerInterface,
   Plugin,
   ContainerConfig,
   ContainerEvent,
   ContainerState,
+  ConstraintRect,
+  ConstraintTarget,
+  ContainerDescriptor,
+  CoordinateSpace,
   DirectionMode,
+  DragActivationConfig,
+  DragHandleConfig,
+  EasingName,
+  GeometryMode,
+  HistoryConfig,
+  GestureCancelConfig,
+  InertiaConfig,
+  KeyboardConfig,
+  MaximizeTarget,
   MovementMode,
   PluginMiddleware,
+  PluginRegistry,
+  PositioningMode,
+  RelativeState,
   ResizeConfig,
-  ResizeDirection
+  ResizeDirection,
+  RotationConfig,
+  WindowState,
+  WindowStateConfig
 } from './types'
 
 /**
@@ -25,8 +53,28 @@ import {
  */
 export class ContainerManager implements ContainerManagerInterface
 {
-  private static MINWIDTH: number = 200
-  private static MINHEIGHT: number = 45
+  // Version of the toJSON() descriptor, fromJSON() rejects others
+  static readonly DESCRIPTOR_VERSION: number = 1
+
+  // Presses here never start a drag, dragHandle.ignore adds to them
+  private static DRAG_IGNORE: string[] = ['input', 'textarea', 'select', 'button', 'a[href]', '[contenteditable]', '[data-no-drag]']
+
+  private static ARROW_KEYS: Record<string, [number, number]> = {
+    ArrowLeft: [-1, 0],
+    ArrowRight: [1, 0],
+    ArrowUp: [0, -1],
+    ArrowDown: [0, 1]
+  }
+
+  // Pointer samples older than this (ms) don't count towards release velocity
+  private static VELOCITY_WINDOW: number = 100
+  // Glide stops below this speed (px/ms)
+  private static INERTIA_REST_SPEED: number = 0.02
+
+  private static DIRECTION_LABELS: Record<ResizeDirection, string> = {
+    'n': 'top', 's': 'bottom', 'e': 'right', 'w': 'left',
+    'ne': 'top right', 'nw': 'top left', 'se': 'bottom right', 'sw': 'bottom left'
+  }
 
   // Streams for reactive event handling
   private dragStream: ReturnType<ReactiveEventSystem<ContainerEvent>['stream']>
@@ -36,20 +84,58 @@ export class ContainerManager implements ContainerManagerInterface
   private readonly pluginEventEmitter: ReactiveEventSystem
 
   private readonly config: ContainerConfig
+  private geometry!: GeometryEngine
   private readonly container: HTMLElement
-  private dragHandle!: HTMLElement
+  private dragHandles: HTMLElement[] = []
+  // Focusable handles with the move role, the drag handles unless the whole container is one
+  private keyboardHandles: HTMLElement[] = []
   private resizeHandles: Map<ResizeDirection, HTMLElement> = new Map()
-  private installedPlugins: Set<Plugin> = new Set()
+  private dragInputs: PointerInput[] = []
+  private resizeInputs: Map<ResizeDirection, PointerInput> = new Map()
+  private rotateHandle: HTMLElement | null = null
+  private rotateInput: PointerInput | null = null
+  private installedPlugins: Map<Plugin, any> = new Map()
+  private beforeHooks: Map<BeforeHookName, { hook: BeforeHook; order: number }[]> = new Map()
   private reactiveEffects: (() => void)[] = []
 
   private isDragging: boolean = false
   private isResizing: boolean = false
   private resizeDirection: ResizeDirection | null = null
+  private resizeCentered: boolean = false
+  private isRotating: boolean = false
+  private rotateCenter: { x: number; y: number } = { x: 0, y: 0 }
+  private rotatePointerAngle: number = 0
+  private gestureScale: { x: number; y: number } = { x: 1, y: 1 }
+  private frameScheduler: FrameScheduler = new FrameScheduler()
+  private pendingMove: PointerEvent | null = null
+  private lastPointer: PointerEvent | null = null
+  private autoScroller: AutoScroller | null = null
+  private scrollOrigin: { x: number; y: number } = { x: 0, y: 0 }
+  private history: History | null = null
+  private glideHistory: { after: ContainerState } | null = null
+  private velocitySamples: { x: number; y: number; t: number }[] = []
+  private inertiaFrameId: number | null = null
+  private animation: { frameId: number; finish: (completed: boolean) => void } | null = null
   private startX: number = 0
   private startY: number = 0
   private startState: ContainerState
   private resizeObserver: ResizeObserver | null = null
   private parentResizeObserver: ResizeObserver | null = null
+  private constraintResizeObserver: ResizeObserver | null = null
+  private relativeResizeObserver: ResizeObserver | null = null
+  private relativeState: RelativeState | null = null
+  private windowState: WindowState = 'normal'
+  private minimizedFrom: WindowState = 'normal'
+  private maximizeTarget: MaximizeTarget = 'viewport'
+  private restoreState: ContainerState | null = null
+  // Maximized window the current drag restored, maximized again if the drag is cancelled
+  private maximizedDrag: { target: MaximizeTarget; restoreState: ContainerState | null; history: History | null } | null = null
+  private maximizeObserver: ResizeObserver | null = null
+  private display: string = ''
+  private collapsed: boolean = false
+  private expandedHeight: number = 0
+  private fullscreen: boolean = false
+  private fullscreenState: ContainerState | null = null
   public zIndexState: StateInterface
 
   private reactiveState = reactive({
@@ -57,6 +143,10 @@ export class ContainerManager implements ContainerManagerInterface
     y: 0,
     width: 0,
     height: 0,
+    angle: 0,
+    aspectRatio: null as number | null,
+    // Height floor of a collapsed container, below the minHeight boundary
+    shadeHeight: null as number | null,
     mode: 'smooth' as MovementMode,
     draggingDirection: 'all' as DirectionMode
   })
@@ -65,36 +155,16 @@ export class ContainerManager implements ContainerManagerInterface
   private constrainedState = computed(() => {
     const state = this.reactiveState
 
-    if (!this.config) return { ...state }
-
-    let constrained: ContainerState = { ...state }
-
-    // Apply boundaries constraints
-    const { boundaries } = this.config
-    constrained.width = clamp(
-      state.width,
-      boundaries.minWidth || ContainerManager.MINWIDTH,
-      boundaries.maxWidth || Infinity
-    )
-    constrained.height = clamp(
-      state.height,
-      boundaries.minHeight || ContainerManager.MINHEIGHT,
-      boundaries.maxHeight || Infinity
-    )
-
-    // Apply viewport constraints if needed
-    if (this.shouldConstrainToViewport()) {
-      const viewport = getViewportDimensions()
-      constrained.x = clamp(state.x, 0, viewport.width - constrained.width)
-      constrained.y = clamp(state.y, 0, viewport.height - constrained.height)
-    }
-
-    // Apply parent constraints if enabled
-    if (this.config?.constrainToParent) {
-      constrained = this.constrainToParent(constrained)
-    }
+    if (!this.geometry) return { ...state }
 
-    return constrained
+    return this.geometry.constrain(state, {
+      ratio: state.aspectRatio,
+      minHeight: state.shadeHeight,
+      viewport: this.shouldConstrainToViewport() ? this.getViewportBox() : null,
+      regions: this.getConstraintRegions(),
+      direction: this.resizeDirection,
+      centered: this.resizeCentered
+    })
   })
 
   // Automatic DOM updates with reactive effect
@@ -103,10 +173,7 @@ export class ContainerManager implements ContainerManagerInterface
 
     if (!this.container) return
 
-    this.container.style.left = `${state.x}px`
-    this.container.style.top = `${state.y}px`
-    this.container.style.width = `${state.width}px`
-    this.container.style.height = `${state.height}px`
+    this.writeStateToDOM(state)
 
     this.eventEmitter?.emit('stateChange', {
       type: 'stateChange',
@@ -128,10 +195,16 @@ export class ContainerManager implements ContainerManagerInterface
       mode: 'smooth',
       constrainToViewport: false,
       draggingDirection: 'all',
+      positioning: 'offset',
+      coordinateSpace: 'offsetParent',
+      geometry: 'absolute',
+      scale: 'auto',
+      snapStep: 10,
       constrainToParent: false,
+      constrainTo: null,
       boundaries: {
-        minWidth: ContainerManager.MINWIDTH,
-        minHeight: ContainerManager.MINHEIGHT
+        minWidth: GeometryEngine.MINWIDTH,
+        minHeight: GeometryEngine.MINHEIGHT
       },
       autoAdjust: {
         enabled: false,
@@ -141,12 +214,63 @@ export class ContainerManager implements ContainerManagerInterface
       resize: {
         enabled: true,
         directions: ['se']
+      },
+      rotation: {
+        enabled: false,
+        step: 0
+      },
+      keyboard: {
+        enabled: true,
+        step: 10
+      },
+      inertia: {
+        enabled: false,
+        friction: 0.95,
+        minVelocity: 0.3,
+        bounce: 0
+      },
+      autoScroll: {
+        enabled: false,
+        threshold: 40,
+        speed: 15
+      },
+      history: {
+        enabled: true,
+        depth: 50
+      },
+      windowState: {
+        maximizeTo: 'viewport',
+        duration: 200
+      },
+      dragHandle: {
+        selector: '[data-drag-handle]',
+        container: false,
+        ignore: []
+      },
+      dragActivation: {
+        distance: 3,
+        delay: 0,
+        touchDelay: 250,
+        tolerance: 5
+      },
+      gestureCancel: {
+        enabled: true,
+        duration: 0
       }
-    }, config)
+    }, config, (type, _, source) => type === 'array' ? [...source] : undefined)
+
+    this.geometry = new GeometryEngine({
+      boundaries: this.config.boundaries,
+      snapStep: this.config.snapStep
+    })
 
     this.container = container
     this.zIndexState = getState()
 
+    if (this.config.positioning === 'transform') {
+      this.container.style.willChange = 'transform'
+    }
+
     // Initialize reactive state from DOM
     const currentState = this.getCurrentState()
     this.reactiveState.x = currentState.x
@@ -155,6 +279,9 @@ export class ContainerManager implements ContainerManagerInterface
     this.reactiveState.height = currentState.height
     this.reactiveState.mode = this.config.mode
     this.reactiveState.draggingDirection = this.config.draggingDirection
+    this.container.dataset.windowState = this.windowState
+    this.container.dataset.collapsed = String(this.collapsed)
+    this.container.dataset.fullscreen = String(this.fullscreen)
 
     // Initialize enhanced event emitters with metrics
     this.eventEmitter = new ReactiveEventSystem<ContainerEvent>({ enableMetrics: true })
@@ -167,8 +294,14 @@ export class ContainerManager implements ContainerManagerInterface
 
     this.startState = this.getState()
 
+    const history: HistoryConfig = this.config.history || {}
+    if (history.enabled) {
+      this.history = new History({ depth: history.depth })
+    }
+
     this.setupEventMiddleware()
     this.initializeHandles()
+    this.initializeAutoScroll()
     this.bindEvents()
     this.setupResizeObservers()
     this.setupReactiveMonitoring()
@@ -188,6 +321,14 @@ export class ContainerManager implements ContainerManagerInterface
     if (this.config.autoAdjust?.enabled) {
       this.setupParentResizeObserver()
     }
+
+    if (this.config.constrainTo) {
+      this.setupConstraintResizeObserver()
+    }
+
+    if (this.getGeometry() === 'relative') {
+      this.setupRelativeResizeObserver()
+    }
   }
 
   /**
@@ -195,7 +336,7 @@ export class ContainerManager implements ContainerManagerInterface
    */
   private shouldConstrainToViewport(): boolean
   {
-    return !this.config.constrainToParent || this.config.constrainToViewport
+    return !(this.config.constrainToParent || this.config.constrainTo) || this.config.constrainToViewport
   }
 
   /**
@@ -220,35 +361,36 @@ export class ContainerManager implements ContainerManagerInterface
    */
   private handleViewportResize(): void
   {
-    if (!this.shouldConstrainToViewport()) return
+    // Relative geometry rescales instead of pushing the container back in
+    if (!this.shouldConstrainToViewport() || this.relativeState || this.windowState !== 'normal' || this.fullscreen) return
 
-    const viewport = getViewportDimensions()
+    const viewport = this.getViewportBox()
     const currentState = this.getState()
     const newState = { ...currentState }
 
     let needsUpdate = false
 
     // Check if container is outside viewport on right edge
-    if (newState.x + newState.width > viewport.width) {
-      newState.x = Math.max(0, viewport.width - newState.width)
+    if (newState.x + newState.width > viewport.x + viewport.width) {
+      newState.x = Math.max(viewport.x, viewport.x + viewport.width - newState.width)
       needsUpdate = true
     }
 
     // Check if container is outside viewport on bottom edge
-    if (newState.y + newState.height > viewport.height) {
-      newState.y = Math.max(0, viewport.height - newState.height)
+    if (newState.y + newState.height > viewport.y + viewport.height) {
+      newState.y = Math.max(viewport.y, viewport.y + viewport.height - newState.height)
       needsUpdate = true
     }
 
     // Check if container is outside viewport on left edge
-    if (newState.x < 0) {
-      newState.x = 0
+    if (newState.x < viewport.x) {
+      newState.x = viewport.x
       needsUpdate = true
     }
 
     // Check if container is outside viewport on top edge
-    if (newState.y < 0) {
-      newState.y = 0
+    if (newState.y < viewport.y) {
+      newState.y = viewport.y
       needsUpdate = true
     }
 
@@ -281,6 +423,117 @@ export class ContainerManager implements ContainerManagerInterface
     this.parentResizeObserver.observe(parentElement)
   }
 
+  /**
+   * Set up ResizeObserver that rescales relative geometry with the viewport, parent and constrainTo element
+   */
+  private setupRelativeResizeObserver(): void
+  {
+    let rAFTimeout: number | null = null
+
+    this.relativeState = this.toRelativeState(this.getState())
+    this.relativeResizeObserver = new ResizeObserver(() => {
+      rAFTimeout && cancelAnimationFrame(rAFTimeout)
+      rAFTimeout = requestAnimationFrame(() => this.applyRelativeState())
+    })
+
+    const target = this.resolveConstraintTarget()
+    const elements = [document.body, this.container.parentElement, target instanceof HTMLElement ? target : null]
+
+    elements.forEach(element => {
+      if (element) this.relativeResizeObserver!.observe(element)
+    })
+  }
+
+  /**
+   * Get the box relative geometry is measured against
+   */
+  private getReferenceBox(): ConstraintRect | null
+  {
+    const box = this.getConstraintBox() ?? this.getViewportBox()
+    return box.width > 0 && box.height > 0 ? box : null
+  }
+
+  /**
+   * Convert a pixel state to fractions of the reference box
+   */
+  private toRelativeState(state: ContainerState): RelativeState | null
+  {
+    const box = this.getReferenceBox()
+    return box ? this.geometry.toRelative(state, box) : null
+  }
+
+  /**
+   * Convert fractions of the reference box to a pixel state
+   */
+  private fromRelativeState(state: RelativeState): Partial<ContainerState> | null
+  {
+    const box = this.getReferenceBox()
+    return box ? this.geometry.fromRelative(state, box) : null
+  }
+
+  /**
+   * Follow state changes made by the user, rescaling itself must not overwrite the fractions,
+   * or a container clamped by a small box would stay small once the box grows back
+   */
+  private trackRelativeState(state: ContainerState): void
+  {
+    if (!this.relativeState || this.windowState !== 'normal' || this.fullscreen) return
+
+    const relative = this.toRelativeState(state)
+    if (!relative) return
+
+    // A collapsed height is not one to scale, expand() returns to the height before
+    if (this.collapsed) {
+      relative.height = this.relativeState.height
+    }
+
+    this.relativeState = relative
+  }
+
+  /**
+   * Derive pixels from the tracked fractions
+   */
+  private applyRelativeState(): void
+  {
+    if (!this.relativeState || this.isDragging || this.isResizing || this.windowState !== 'normal' || this.fullscreen) return
+
+    const state = this.fromRelativeState(this.relativeState)
+    if (!state) return
+
+    if (this.collapsed) {
+      state.height = this.reactiveState.shadeHeight ?? state.height
+    }
+
+    // Written without tracking, so the fractions are not overwritten by their own rescale
+    this.writeState(state)
+  }
+
+  /**
+   * Set up ResizeObserver for the constrainTo element, a rectangle has nothing to observe
+   */
+  private setupConstraintResizeObserver(): void
+  {
+    this.constraintResizeObserver?.disconnect()
+    this.constraintResizeObserver = null
+
+    const target = this.resolveConstraintTarget()
+    if (!(target instanceof HTMLElement)) return
+
+    this.constraintResizeObserver = new ResizeObserver(() => this.applyConstrainTo())
+    this.constraintResizeObserver.observe(target)
+  }
+
+  /**
+   * Move and shrink the container back into the constrainTo region
+   */
+  private applyConstrainTo(): void
+  {
+    const box = this.getConstrainToBox()
+    if (!box) return
+
+    this.setState(this.geometry.constrainToBox(this.getState(), box))
+  }
+
   /**
    * Handle parent element resize for auto-adjustment with reactive updates
    */
@@ -337,22 +590,102 @@ export class ContainerManager implements ContainerManagerInterface
     if (this.config.resize?.enabled) {
       this.initializeResizeHandles()
     }
+
+    if (this.config.rotation?.enabled) {
+      this.initializeRotateHandle()
+    }
+  }
+
+  /**
+   * Initialize the rotate handle
+   */
+  private initializeRotateHandle(): void
+  {
+    const handle = document.createElement('div')
+    handle.className = 'rotate-handle'
+    handle.setAttribute('data-rotate-handle', 'true')
+    handle.addEventListener('contextmenu', this.onContextMenu)
+
+    this.applyHandleAccessibility(handle, 'rotate handle', 'Rotate container')
+    handle.setAttribute('aria-keyshortcuts', 'ArrowLeft ArrowRight')
+
+    this.rotateHandle = handle
+    this.container.appendChild(handle)
   }
 
   /**
-   * Initialize drag handle
+   * Initialize drag handles - the whole container, every element matching the handle selector,
+   * or a created .drag-handle when nothing matches
    */
   private initializeDragHandle(): void
   {
-    this.dragHandle = this.container.querySelector('[data-drag-handle]') as HTMLElement
-    if (!this.dragHandle) {
-      this.dragHandle = document.createElement('div')
-      this.dragHandle.className = 'drag-handle'
-      this.dragHandle.setAttribute('data-drag-handle', 'true')
-      this.dragHandle.setAttribute('oncontextmenu', 'return false')
-      this.container.prepend(this.dragHandle)
-    } else {
-      this.dragHandle.setAttribute('oncontextmenu', 'return false')
+    const config: DragHandleConfig = this.config.dragHandle || {}
+
+    const handles = Array.from(this.container.querySelectorAll<HTMLElement>(config.selector || '[data-drag-handle]'))
+
+    this.dragHandles = config.container ? [this.container] : handles
+
+    if (!this.dragHandles.length) {
+      const handle = document.createElement('div')
+      handle.className = 'drag-handle'
+      handle.setAttribute('data-drag-handle', 'true')
+      this.container.prepend(handle)
+      this.dragHandles = [handle]
+    }
+
+    // The container's own content keeps its context menu
+    this.dragHandles.forEach(handle => {
+      if (handle !== this.container) {
+        handle.setAttribute('oncontextmenu', 'return false')
+      }
+    })
+
+    // A whole-container handle holds interactive content, so it gets no button role,
+    // the matching handles inside stay the focusable ones
+    this.keyboardHandles = config.container ? handles : this.dragHandles
+
+    this.keyboardHandles.forEach(handle => {
+      this.applyHandleAccessibility(handle, 'move handle', 'Move container')
+      handle.setAttribute('aria-keyshortcuts', 'ArrowUp ArrowDown ArrowLeft ArrowRight')
+    })
+  }
+
+  /**
+   * Check if a press or key press comes from an element that must not start a drag
+   */
+  private isIgnoredTarget(target: EventTarget | null): boolean
+  {
+    if (!(target instanceof Element)) return false
+
+    const ignore = [
+      ...ContainerManager.DRAG_IGNORE,
+      ...(this.config.dragHandle?.ignore || []),
+      '[data-resize-handle]',
+      '[data-rotate-handle]'
+    ]
+
+    return ignore.some(selector => {
+      const match = target.closest(selector)
+      return match !== null && this.container.contains(match)
+    })
+  }
+
+  /**
+   * Make a handle focusable and give it a role and label, keeping author-provided ones
+   */
+  private applyHandleAccessibility(handle: HTMLElement, roleDescription: string, label: string): void
+  {
+    if (this.config.keyboard?.enabled && !handle.hasAttribute('tabindex')) {
+      handle.tabIndex = 0
+    }
+    if (!handle.hasAttribute('role')) {
+      handle.setAttribute('role', 'button')
+    }
+    if (!handle.hasAttribute('aria-roledescription')) {
+      handle.setAttribute('aria-roledescription', roleDescription)
+    }
+    if (!handle.hasAttribute('aria-label')) {
+      handle.setAttribute('aria-label', label)
     }
   }
 
@@ -383,6 +716,13 @@ export class ContainerManager implements ContainerManagerInterface
     // Add context menu prevention for resize handles
     handle.addEventListener('contextmenu', this.onContextMenu)
 
+    this.applyHandleAccessibility(
+      handle,
+      'resize handle',
+      `Resize container from the ${ContainerManager.DIRECTION_LABELS[direction]}`
+    )
+    handle.setAttribute('aria-keyshortcuts', 'Shift+ArrowUp Shift+ArrowDown Shift+ArrowLeft Shift+ArrowRight')
+
     this.applyResizeHandleStyles(handle, direction)
 
     return handle
@@ -476,118 +816,280 @@ export class ContainerManager implements ContainerManagerInterface
     this.onResizeMove = this.onResizeMove.bind(this)
     this.onResizeEnd = this.onResizeEnd.bind(this)
 
+    this.onRotateStart = this.onRotateStart.bind(this)
+    this.onRotateMove = this.onRotateMove.bind(this)
+    this.onRotateEnd = this.onRotateEnd.bind(this)
+
     this.onContextMenu = this.onContextMenu.bind(this)
+    this.onKeyDown = this.onKeyDown.bind(this)
+    this.onScroll = this.onScroll.bind(this)
+    this.onFullscreenChange = this.onFullscreenChange.bind(this)
+    this.fitMaximized = this.fitMaximized.bind(this)
 
-    // Only bind default drag events if no snapping plugin is installed
-    if (!this.hasPluginByName('SnappingPlugin')) {
-      this.dragHandle.addEventListener('mousedown', this.onDragStart)
-      this.dragHandle.addEventListener('touchstart', this.onDragStart)
-    }
+    const activation: DragActivationConfig = this.config.dragActivation || {}
+    const longPress = (activation.touchDelay ?? activation.delay ?? 0) > 0
 
-    // Bind resize events for all resize handles
-    if (this.config.resize?.enabled) {
-      this.resizeHandles.forEach((handle, direction) => {
-        handle.addEventListener('mousedown', (e) => this.onResizeStart(e, direction))
-        handle.addEventListener('touchstart', (e) => this.onResizeStart(e, direction))
+    this.dragInputs = this.dragHandles.map(handle => new PointerInput(handle, {
+      start: (e) => {
+        // Nested handles see the same press, the first one to activate owns it
+        if (this.isDragging) return false
+
+        this.onDragStart(e)
+        return this.isDragging
+      },
+      move: this.onDragMove,
+      end: this.onDragEnd,
+      cancel: () => this.cancelGesture()
+    }, {
+      // With a long press the page can still be scrolled by swiping over the handle,
+      // the container as the handle keeps the touch-action its content needs
+      touchAction: handle === this.container ? null : longPress ? 'pan-x pan-y' : 'none',
+      cancelable: this.config.gestureCancel?.enabled,
+      activation,
+      filter: (e) => !this.isIgnoredTarget(e.target)
+    }))
+
+    this.bindResizeEvents()
+
+    if (this.rotateHandle) {
+      this.rotateInput = new PointerInput(this.rotateHandle, {
+        start: (e) => {
+          this.onRotateStart(e)
+          return this.isRotating
+        },
+        move: this.onRotateMove,
+        end: this.onRotateEnd,
+        cancel: () => this.cancelGesture()
+      }, {
+        cancelable: this.config.gestureCancel?.enabled
       })
     }
 
-    // Disable context menu on drag handle
-    this.dragHandle.addEventListener('contextmenu', this.onContextMenu)
+    // Disable context menu on drag handles
+    this.dragHandles.forEach(handle => {
+      if (handle !== this.container) {
+        handle.addEventListener('contextmenu', this.onContextMenu)
+      }
+    })
+
+    // Keyboard move and resize, delegated from the focused handle
+    this.container.addEventListener('keydown', this.onKeyDown)
+
+    // Esc or the browser UI may leave fullscreen without exitFullscreen()
+    this.container.ownerDocument.addEventListener('fullscreenchange', this.onFullscreenChange)
+
+    // Scrolling moves the container within the viewport and document spaces
+    if (this.getCoordinateSpace() !== 'offsetParent') {
+      this.container.ownerDocument.addEventListener('scroll', this.onScroll, { capture: true, passive: true })
+    }
   }
 
   /**
-   * Apply movement mode to coordinates
+   * Re-read the position after a scroll, so the state keeps describing where the container is
    */
-  private applyMovementMode(deltaX: number, deltaY: number): ContainerState
+  private onScroll(): void
   {
-    const newState = { ...this.startState }
+    if (this.isDragging || this.isResizing || this.isRotating || this.inertiaFrameId !== null || this.fullscreen) return
 
-    if (this.reactiveState.mode === 'smooth') {
-      newState.x = this.startState.x + deltaX
-      newState.y = this.startState.y + deltaY
-    }
+    const { x, y } = this.getCurrentState()
+    this.setState({ x, y })
+  }
+
+  /**
+   * Bind pointer input to every resize handle
+   */
+  private bindResizeEvents(): void
+  {
+    if (!this.config.resize?.enabled) return
+
+    this.resizeHandles.forEach((handle, direction) => {
+      this.resizeInputs.set(direction, new PointerInput(handle, {
+        start: (e) => {
+          this.onResizeStart(e, direction)
+          return this.isResizing
+        },
+        move: this.onResizeMove,
+        end: this.onResizeEnd,
+        cancel: () => this.cancelGesture()
+      }, {
+        cancelable: this.config.gestureCancel?.enabled
+      }))
+    })
+  }
 
-    return newState
+  /**
+   * Detach pointer input from every resize handle
+   */
+  private unbindResizeEvents(): void
+  {
+    this.resizeInputs.forEach(input => input.destroy())
+    this.resizeInputs.clear()
   }
 
   /**
-   * Calculate new state based on resize direction and deltas
+   * Calculate the state of a resize step from the gesture start
    */
   private calculateResizeState(deltaX: number, deltaY: number, direction: ResizeDirection): ContainerState
   {
-    const newState = { ...this.startState }
+    return this.geometry.resize(this.startState, deltaX, deltaY, {
+      direction,
+      mode: this.reactiveState.mode,
+      ratio: this.reactiveState.aspectRatio,
+      centered: this.resizeCentered,
+      box: this.getConstraintBox()
+    })
+  }
 
-    switch (direction) {
-      case 'e': // East - right only
-        newState.width = this.startState.width + deltaX
-        break
-      case 'w': // West - left only
-        newState.width = this.startState.width - deltaX
-        newState.x = this.startState.x + deltaX
-        break
-      case 'n': // North - top only
-        newState.height = this.startState.height - deltaY
-        newState.y = this.startState.y + deltaY
-        break
-      case 's': // South - bottom only
-        newState.height = this.startState.height + deltaY
-        break
-      case 'ne': // Northeast - top-right
-        newState.width = this.startState.width + deltaX
-        newState.height = this.startState.height - deltaY
-        newState.y = this.startState.y + deltaY
-        break
-      case 'nw': // Northwest - top-left
-        newState.width = this.startState.width - deltaX
-        newState.height = this.startState.height - deltaY
-        newState.x = this.startState.x + deltaX
-        newState.y = this.startState.y + deltaY
-        break
-      case 'se': // Southeast - bottom-right
-        newState.width = this.startState.width + deltaX
-        newState.height = this.startState.height + deltaY
-        break
-      case 'sw': // Southwest - bottom-left
-        newState.width = this.startState.width - deltaX
-        newState.height = this.startState.height + deltaY
-        newState.x = this.startState.x + deltaX
-        break
+  /**
+   * Get the rectangle the container is confined to by viewport and parent constraints
+   */
+  private getConstraintBox(): ConstraintRect | null
+  {
+    const boxes = this.getConstraintRegions()
+    if (this.shouldConstrainToViewport()) {
+      boxes.unshift(this.getViewportBox())
     }
 
-    return newState
+    // Several apply, the container is confined to their overlap
+    return this.geometry.intersect(boxes)
   }
 
   /**
-   * Constrain container to parent element boundaries (both position and size)
+   * Get the parent and constrainTo rectangles that currently apply
    */
-  private constrainToParent(state: ContainerState): ContainerState
+  private getConstraintRegions(): ConstraintRect[]
   {
-    const parentElement = this.container.parentElement
-    if (!parentElement) return state
+    const regions: ConstraintRect[] = []
+
+    const parent = this.config.constrainToParent ? this.getParentBox() : null
+    if (parent) regions.push(parent)
+
+    const target = this.config.constrainTo ? this.getConstrainToBox() : null
+    if (target) regions.push(target)
+
+    return regions
+  }
+
+  /**
+   * Resolve the constrainTo option to an element or a rectangle
+   */
+  private resolveConstraintTarget(): HTMLElement | ConstraintRect | null
+  {
+    const target = this.config.constrainTo
+    if (!target) return null
+
+    if (typeof target === 'string') {
+      return this.container.ownerDocument.querySelector<HTMLElement>(target)
+    }
+
+    return typeof target === 'function' ? target() : target
+  }
 
-    const parentRect = parentElement.getBoundingClientRect()
+  /**
+   * Get the constrainTo region as a rectangle in the configured coordinate space
+   * Returns null while the selector matches nothing or the region has no size
+   */
+  private getConstrainToBox(): ConstraintRect | null
+  {
+    const target = this.resolveConstraintTarget()
+    if (!target) return null
 
-    // If the container has not yet been added to the DOM or the parent has a zero size,
-    // return to the original state
-    if (parentRect.width === 0 || parentRect.height === 0) {
-      return state
+    if (!(target instanceof HTMLElement)) {
+      const { x, y, width, height } = target
+      return width > 0 && height > 0 ? { x, y, width, height } : null
     }
 
-    // Calculating the maximum allowable coordinates
-    const maxX = Math.max(0, parentRect.width - state.width)
-    const maxY = Math.max(0, parentRect.height - state.height)
+    const rect = target.getBoundingClientRect()
+    if (!rect.width || !rect.height) return null
+
+    // Viewport coordinates in local pixels are screen pixels divided by the scale
+    const scale = this.getScale()
+    const origin = this.convertPoint(
+      { x: rect.left / scale.x, y: rect.top / scale.y },
+      'viewport',
+      this.getCoordinateSpace()
+    )
+
+    return {
+      ...origin,
+      width: rect.width / scale.x,
+      height: rect.height / scale.y
+    }
+  }
 
-    // Calculating the maximum allowable sizes
-    const maxWidth = parentRect.width - state.x
-    const maxHeight = parentRect.height - state.y
+  /**
+   * Get the viewport as a rectangle in the configured coordinate space
+   */
+  private getViewportBox(): ConstraintRect
+  {
+    const viewport = getViewportDimensions()
+    const scale = this.getScale()
+    const origin = this.convertPoint({ x: 0, y: 0 }, 'viewport', this.getCoordinateSpace())
 
     return {
-      x: clamp(state.x, 0, maxX),
-      y: clamp(state.y, 0, maxY),
-      width: clamp(state.width, 0, maxWidth),
-      height: clamp(state.height, 0, maxHeight)
+      ...origin,
+      width: viewport.width / scale.x,
+      height: viewport.height / scale.y
+    }
+  }
+
+  /**
+   * Get the parent as a rectangle in the configured coordinate space
+   * Returns null while the container is detached or the parent has no size
+   */
+  private getParentBox(): ConstraintRect | null
+  {
+    const parentElement = this.container.parentElement
+    if (!parentElement) return null
+
+    const size = this.getParentSize(parentElement)
+    if (size.width === 0 || size.height === 0) return null
+
+    const space = this.getCoordinateSpace()
+
+    if (parentElement === this.container.offsetParent) {
+      return { ...this.convertPoint({ x: 0, y: 0 }, 'offsetParent', space), ...size }
+    }
+
+    // A non-positioned parent isn't where left/top are measured from, its own origin is converted instead
+    const scale = this.getScale()
+    const content = this.getContentOrigin(parentElement)
+    const origin = this.convertPoint({ x: content.x / scale.x, y: content.y / scale.y }, 'viewport', space)
+
+    return { ...origin, ...size }
+  }
+
+  /**
+   * Resolve whether the current resize gesture grows around the center
+   * Holding Alt toggles centered mode when modifier keys are enabled
+   */
+  private resolveCentered(altKey: boolean = false): boolean
+  {
+    const resize: ResizeConfig = this.config.resize || {}
+    const centered = resize.centered ?? false
+
+    return altKey && resize.modifierKeys !== false ? !centered : centered
+  }
+
+  /**
+   * Resolve the aspect ratio to lock for the current resize gesture
+   * Holding Shift toggles the lock when modifier keys are enabled
+   */
+  private resolveAspectRatio(shiftKey: boolean = false): number | null
+  {
+    const resize: ResizeConfig = this.config.resize || {}
+    const configured = resize.aspectRatio
+
+    let locked = configured !== undefined
+    if (shiftKey && resize.modifierKeys !== false) {
+      locked = !locked
     }
+
+    if (!locked) return null
+
+    return typeof configured === 'number' && configured > 0
+      ? configured
+      : this.startState.width / this.startState.height
   }
 
   /**
@@ -599,10 +1101,15 @@ export class ContainerManager implements ContainerManagerInterface
     let maxWidth = boundaries.maxWidth || Infinity
 
     if (this.config.constrainToParent && this.container.parentElement) {
-      const parentWidth = this.container.parentElement.getBoundingClientRect().width
+      const parentWidth = this.getParentSize(this.container.parentElement).width
       maxWidth = Math.min(maxWidth, parentWidth)
     }
 
+    const region = this.config.constrainTo ? this.getConstrainToBox() : null
+    if (region) {
+      maxWidth = Math.min(maxWidth, region.width)
+    }
+
     return maxWidth
   }
 
@@ -615,48 +1122,392 @@ export class ContainerManager implements ContainerManagerInterface
     let maxHeight = boundaries.maxHeight || Infinity
 
     if (this.config.constrainToParent && this.container.parentElement) {
-      const parentHeight = this.container.parentElement.getBoundingClientRect().height
+      const parentHeight = this.getParentSize(this.container.parentElement).height
       maxHeight = Math.min(maxHeight, parentHeight)
     }
 
+    const region = this.config.constrainTo ? this.getConstrainToBox() : null
+    if (region) {
+      maxHeight = Math.min(maxHeight, region.height)
+    }
+
     return maxHeight
   }
 
   /**
-   * Handle context menu event on drag handle
+   * Handle arrow keys on a focused handle
+   * Arrows move the container, Shift+arrows resize it from the focused resize handle,
+   * on the rotate handle arrows turn it
    */
-  private onContextMenu(e: MouseEvent): void
+  private onKeyDown(e: KeyboardEvent): void
   {
+    const keyboard: KeyboardConfig = this.config.keyboard || {}
+    const vector = ContainerManager.ARROW_KEYS[e.key]
+
+    if (!keyboard.enabled || !vector || this.windowState !== 'normal' || this.fullscreen) return
+    if (this.isDragging || this.isResizing || this.isRotating) return
+
+    const target = e.target as HTMLElement
+
+    if (this.rotateHandle && target === this.rotateHandle) {
+      e.preventDefault()
+      this.rotateByKeyboard(vector[0] + vector[1])
+      return
+    }
+    const resizeHandle = target.closest<HTMLElement>('[data-resize-handle]')
+    const direction = resizeHandle?.dataset.resizeHandle as ResizeDirection | undefined
+    const onDragHandle = !this.isIgnoredTarget(target) && this.keyboardHandles.some(handle => handle.contains(target))
+
+    if (!onDragHandle && !(direction && this.resizeHandles.get(direction) === resizeHandle)) return
+
+    // In snap mode a key press moves by one grid cell
+    const step = this.reactiveState.mode === 'snap' ? this.getSnapStep() : keyboard.step ?? 10
+    const deltaX = vector[0] * step
+    const deltaY = vector[1] * step
+
     e.preventDefault()
-    e.stopPropagation()
-  }
 
-  /**
-   * Check if snapping plugin is installed
-   */
-  private hasPluginByName(pluginName: string): boolean
-  {
-    return Array.from(this.installedPlugins)
-      .some(plugin => plugin.constructor.name === pluginName)
+    if (e.shiftKey && direction) {
+      this.resizeByKeyboard(deltaX, deltaY, direction)
+    } else {
+      this.moveByKeyboard(deltaX, deltaY)
+    }
   }
 
   /**
-   * Get current container state from DOM
+   * Move container by a keyboard step through movement mode, direction and constraints
    */
-  private getCurrentState(): ContainerState
+  private moveByKeyboard(deltaX: number, deltaY: number): void
   {
-    const rect = this.container.getBoundingClientRect()
+    this.stopInertia()
+    this.stopAnimation()
+
+    if (this.reactiveState.mode === 'pinned') return
+
+    this.startX = 0
+    this.startY = 0
+
+    // Lock the axis the same way pointer dragging does
+    const { clientX, clientY } = this.directionResolver(deltaX, deltaY)
+    if (clientX === 0 && clientY === 0) return
+
+    // A start state rewritten by the hooks is moved from, as in pointer dragging
+    const start = this.runBeforeHooks('beforeDragStart', this.getState())
+    if (!start) return
+
+    this.startState = start
+
+    const newState = this.runBeforeHooks('beforeDrag', this.geometry.move(this.startState, clientX, clientY, this.reactiveState.mode))
+    if (!newState) return
+
+    this.bringToFront()
+    this.emitKeyboardGesture('drag', () => {
+      this.setConstrainedState(newState)
+    })
+  }
+
+  /**
+   * Resize container by a keyboard step from the given handle direction
+   */
+  private resizeByKeyboard(deltaX: number, deltaY: number, direction: ResizeDirection): void
+  {
+    this.stopInertia()
+    this.stopAnimation()
+
+    this.startState = this.getState()
+    this.reactiveState.aspectRatio = this.resolveAspectRatio()
+    this.resizeCentered = this.resolveCentered()
+
+    const newState = this.runBeforeHooks('beforeResize', this.calculateResizeState(deltaX, deltaY, direction), direction)
+
+    if (!newState) {
+      this.reactiveState.aspectRatio = null
+      return
+    }
+
+    this.bringToFront()
+    this.emitKeyboardGesture('resize', () => {
+      this.resizeDirection = direction
+      this.setConstrainedState(newState)
+      this.resizeDirection = null
+      this.reactiveState.aspectRatio = null
+    }, direction)
+  }
+
+  /**
+   * Rotate container by one angle step, clockwise for a positive sign
+   */
+  private rotateByKeyboard(sign: number): void
+  {
+    this.stopInertia()
+    this.stopAnimation()
+
+    if (this.reactiveState.mode === 'pinned') return
+
+    const step = this.config.rotation?.step || 15
+
+    this.bringToFront()
+    this.emitKeyboardGesture('rotate', () => {
+      const angle = this.geometry.rotate(this.reactiveState.angle, sign * step, step)
+      this.setConstrainedState({ ...this.getState(), angle })
+    })
+  }
+
+  /**
+   * Emit start, progress and end events around a single keyboard step
+   */
+  private emitKeyboardGesture(type: 'drag' | 'resize' | 'rotate', apply: () => void, direction?: ResizeDirection): void
+  {
+    const emit = (event: string) => {
+      this.eventEmitter.emit(event, {
+        type,
+        state: this.getState(),
+        mode: this.reactiveState.mode,
+        element: this.container,
+        ...(direction && { direction })
+      })
+    }
+
+    const before = this.getState()
+
+    emit(`${type}Start`)
+    apply()
+    emit(type)
+    this.recordGeometry(type, before)
+    emit(`${type}End`)
+  }
+
+  /**
+   * Update state and commit its constrained form, so repeated steps don't accumulate past the limits
+   */
+  private setConstrainedState(state: ContainerState): void
+  {
+    this.setState(state)
+    this.setState(this.constrainedState.value)
+  }
+
+  /**
+   * Handle context menu event on drag handle
+   */
+  private onContextMenu(e: MouseEvent): void
+  {
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  /**
+   * Get current container state from DOM, in the configured coordinate space
+   * The bounding rect already includes translate3d, so it is valid for both positioning modes,
+   * and its center survives rotation, so x/y are derived from the center
+   */
+  private getCurrentState(): ContainerState
+  {
+    const rect = this.container.getBoundingClientRect()
     const style = window.getComputedStyle(this.container)
+    const scale = this.getScale()
+
+    const width = parseFloat(style.width) || rect.width / scale.x
+    const height = parseFloat(style.height) || rect.height / scale.y
+
+    // Viewport coordinates in local pixels are screen pixels divided by the scale
+    const center = this.convertPoint(
+      { x: (rect.left + rect.width / 2) / scale.x, y: (rect.top + rect.height / 2) / scale.y },
+      'viewport',
+      this.getCoordinateSpace()
+    )
+
+    return {
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height
+    }
+  }
+
+  /**
+   * Get how geometry follows constraint box resizes
+   */
+  getGeometry(): GeometryMode
+  {
+    return this.config.geometry ?? 'absolute'
+  }
+
+  /**
+   * Get the DOM-free engine holding the layout rules of this container
+   */
+  getGeometryEngine(): GeometryEngine
+  {
+    return this.geometry
+  }
+
+  /**
+   * Get the state as fractions of the constraint box, null in absolute geometry
+   */
+  getRelativeState(): RelativeState | null
+  {
+    return this.relativeState ? { ...this.relativeState } : null
+  }
+
+  /**
+   * Place the container by fractions of the constraint box, e.g. a layout saved on another screen
+   */
+  setRelativeState(state: RelativeState): void
+  {
+    const pixels = this.fromRelativeState(state)
+    if (!pixels) return
+
+    this.setState(pixels)
+
+    // Fractions outside the current limits are kept, so the container grows back when it can
+    if (this.relativeState) {
+      this.relativeState = { ...state }
+    }
+  }
+
+  /**
+   * Get the coordinate space state x/y are measured in
+   */
+  getCoordinateSpace(): CoordinateSpace
+  {
+    return this.config.coordinateSpace ?? 'offsetParent'
+  }
+
+  /**
+   * Convert a point between coordinate spaces, in the container's local pixels
+   */
+  convertPoint(point: { x: number; y: number }, from: CoordinateSpace, to: CoordinateSpace): { x: number; y: number }
+  {
+    if (from === to) return { ...point }
+
+    const source = this.getSpaceOrigin(from)
+    const target = this.getSpaceOrigin(to)
+
+    return {
+      x: point.x + source.x - target.x,
+      y: point.y + source.y - target.y
+    }
+  }
+
+  /**
+   * Get where a coordinate space starts, in local pixels from the point left/top are measured from
+   */
+  private getSpaceOrigin(space: CoordinateSpace): { x: number; y: number }
+  {
+    if (space === 'offsetParent') return { x: 0, y: 0 }
+
+    const origin = this.getOffsetOrigin()
+    const scale = this.getScale()
+
+    // The document starts above and left of the viewport by the page scroll
+    const start = space === 'document'
+      ? { x: -window.scrollX, y: -window.scrollY }
+      : { x: 0, y: 0 }
+
+    return {
+      x: (start.x - origin.x) / scale.x,
+      y: (start.y - origin.y) / scale.y
+    }
+  }
+
+  /**
+   * Get the screen position left/top are measured from
+   */
+  private getOffsetOrigin(): { x: number; y: number }
+  {
+    const parent = this.container.offsetParent as HTMLElement | null
+
+    // A fixed (or detached) container is positioned against the viewport
+    if (!parent) return { x: 0, y: 0 }
+
+    // Without a positioned ancestor left/top are relative to the document
+    const doc = parent.ownerDocument
+    if (parent === doc.body && window.getComputedStyle(parent).position === 'static') {
+      const rect = doc.documentElement.getBoundingClientRect()
+      return { x: rect.left, y: rect.top }
+    }
+
+    return this.getContentOrigin(parent)
+  }
+
+  /**
+   * Get the screen position of an element's padding box, shifted by its own scroll
+   */
+  private getContentOrigin(element: HTMLElement): { x: number; y: number }
+  {
+    const rect = element.getBoundingClientRect()
+    const scale = this.getScale()
+
+    return {
+      x: rect.left + (element.clientLeft - element.scrollLeft) * scale.x,
+      y: rect.top + (element.clientTop - element.scrollTop) * scale.y
+    }
+  }
+
+  /**
+   * Get the scale between screen pixels and the container's local CSS pixels,
+   * from the configured factor or detected on the parent (e.g. a zoomed canvas with transform: scale())
+   */
+  getScale(): { x: number; y: number }
+  {
+    const scale = this.config.scale ?? 'auto'
+
+    if (typeof scale === 'number') {
+      return scale > 0 ? { x: scale, y: scale } : { x: 1, y: 1 }
+    }
+
+    const parent = this.container.parentElement
+    if (!parent || !parent.offsetWidth || !parent.offsetHeight) return { x: 1, y: 1 }
 
-    const styleWidth = parseFloat(style.width) || rect.width
-    const styleHeight = parseFloat(style.height) || rect.height
+    // offsetWidth ignores transforms, the bounding rect doesn't, rounding drops subpixel noise
+    const rect = parent.getBoundingClientRect()
+    const round = (value: number) => Math.round(value * 1000) / 1000 || 1
 
     return {
-      x: rect.left,
-      y: rect.top,
-      width: styleWidth,
-      height: styleHeight
+      x: round(rect.width / parent.offsetWidth),
+      y: round(rect.height / parent.offsetHeight)
+    }
+  }
+
+  /**
+   * Get parent size in the container's local pixels
+   * With auto-scroll a scrollable parent counts with its whole content, not just the visible part
+   */
+  private getParentSize(parent: HTMLElement): { width: number; height: number }
+  {
+    if (this.config.autoScroll?.enabled && AutoScroller.isScrollable(parent)) {
+      return this.getScrollExtent(parent)
+    }
+
+    const rect = parent.getBoundingClientRect()
+    const scale = this.getScale()
+
+    return {
+      width: rect.width / scale.x,
+      height: rect.height / scale.y
+    }
+  }
+
+  /**
+   * Get the scrollable content size of a parent, in local pixels
+   * The container's own overflow is left out, or every step past the edge would grow the region further
+   */
+  private getScrollExtent(parent: HTMLElement): { width: number; height: number }
+  {
+    const rect = parent.getBoundingClientRect()
+    const scale = this.getScale()
+
+    let width = parent.clientWidth
+    let height = parent.clientHeight
+
+    for (const child of Array.from(parent.children)) {
+      if (child === this.container) continue
+
+      const box = child.getBoundingClientRect()
+      width = Math.max(width, (box.right - rect.left) / scale.x - parent.clientLeft + parent.scrollLeft)
+      height = Math.max(height, (box.bottom - rect.top) / scale.y - parent.clientTop + parent.scrollTop)
     }
+
+    return { width, height }
   }
 
   /**
@@ -672,14 +1523,6 @@ export class ContainerManager implements ContainerManagerInterface
       return data
     })
 
-    // TODO Add validation middleware for drag events
-    this.eventEmitter.use('dragStart', (data, _event) => {
-      if (this.reactiveState.mode === 'pinned') {
-        throw new Error('Cannot drag in pinned mode')
-      }
-      return data
-    })
-
     // Add performance monitoring middleware
     this.eventEmitter.use('drag', (data, _event) => {
       // console.log(`[ContainerManager] ${event}:`, data)
@@ -813,25 +1656,88 @@ export class ContainerManager implements ContainerManagerInterface
     return this.pluginEventEmitter.use(event, middleware)
   }
 
+  /**
+   * Add a vetoable hook run before drag start, drag steps, resize steps or any state write
+   * Hooks run by ascending order, then in the order they were added
+   * Returns a function removing the hook
+   */
+  useBeforeHook(name: BeforeHookName, hook: BeforeHook, order: number = 0): () => void
+  {
+    const hooks = this.beforeHooks.get(name) || []
+    const entry = { hook, order }
+
+    // Stable sort keeps registration order among equal orders
+    this.beforeHooks.set(name, [...hooks, entry].sort((a, b) => a.order - b.order))
+
+    return () => {
+      const current = this.beforeHooks.get(name) || []
+      this.beforeHooks.set(name, current.filter(item => item !== entry))
+    }
+  }
+
+  /**
+   * Pass a proposed state through the hooks, each one sees the result of the previous
+   * Returns null when a hook cancels the operation
+   */
+  private runBeforeHooks(name: BeforeHookName, state: ContainerState, direction?: ResizeDirection): ContainerState | null
+  {
+    const hooks = this.beforeHooks.get(name)
+    if (!hooks?.length) return state
+
+    const current = this.getState()
+    let proposed = { ...state }
+
+    for (const { hook } of hooks) {
+      const result = hook({
+        hook: name,
+        state: { ...proposed },
+        current,
+        mode: this.reactiveState.mode,
+        element: this.container,
+        ...(direction && { direction })
+      })
+
+      if (result === false) return null
+      if (result) proposed = { ...proposed, ...result }
+    }
+
+    return proposed
+  }
+
   /**
    * Handle drag start event
    */
-  onDragStart(e: MouseEvent | TouchEvent): void
+  onDragStart(e: PointerEvent): void
   {
-    // Don't allow dragging in pinned mode
-    if (this.reactiveState.mode === 'pinned') return
+    // Grabbing a gliding container stops it
+    this.stopInertia()
+    this.stopAnimation()
+
+    // Don't allow dragging in pinned mode, or while the browser shows the container fullscreen
+    if (this.reactiveState.mode === 'pinned' || this.fullscreen) return
+
+    const start = this.runBeforeHooks('beforeDragStart', this.getState())
+    if (!start) return
 
     e.preventDefault()
+    this.setState(start)
     this.bringToFront()
 
-    this.isDragging = true
+    // The restore and the drag form one step
+    if (this.windowState === 'maximized') {
+      this.maximizedDrag = { target: this.maximizeTarget, restoreState: this.restoreState, history: this.history }
+      this.history?.beginGroup()
+      this.restoreUnderPointer(e)
+    }
 
-    const clientX = e instanceof MouseEvent ? e.clientX : e.touches[0].clientX
-    const clientY = e instanceof MouseEvent ? e.clientY : e.touches[0].clientY
+    this.isDragging = true
 
-    this.startX = clientX
-    this.startY = clientY
+    this.startX = e.clientX
+    this.startY = e.clientY
     this.startState = this.getState()
+    this.gestureScale = this.getScale()
+    this.velocitySamples = []
+    this.startAutoScroll()
 
     this.eventEmitter.emit('dragStart', {
       type: 'drag',
@@ -839,30 +1745,41 @@ export class ContainerManager implements ContainerManagerInterface
       mode: this.reactiveState.mode,
       element: this.container
     })
-
-    document.addEventListener('mousemove', this.onDragMove)
-    document.addEventListener('mouseup', this.onDragEnd)
-    document.addEventListener('touchmove', this.onDragMove)
-    document.addEventListener('touchend', this.onDragEnd)
   }
 
   /**
    * Handle drag movement with reactive state updates
    */
-  onDragMove(e: MouseEvent | TouchEvent): void
+  onDragMove(e: PointerEvent): void
   {
     if (!this.isDragging) return
 
-    const { clientX, clientY } = this.directionResolver(
-      e instanceof MouseEvent ? e.clientX : e.touches[0].clientX,
-      e instanceof MouseEvent ? e.clientY : e.touches[0].clientY
-    )
+    this.sampleVelocity(e)
+    this.pendingMove = e
+    this.trackPointer(this.pendingMove)
+    this.frameScheduler.schedule(() => this.commitDragMove())
+  }
+
+  /**
+   * Commit the latest pointer position of the frame as one drag step
+   */
+  private commitDragMove(): void
+  {
+    const e = this.pendingMove
+    if (!this.isDragging || !e) return
+
+    this.pendingMove = null
+
+    const { clientX, clientY } = this.directionResolver(e.clientX, e.clientY)
+
+    // Pointer travel is in screen pixels, the state in the container's local pixels
+    const deltaX = (clientX - this.startX) / this.gestureScale.x
+    const deltaY = (clientY - this.startY) / this.gestureScale.y
 
-    const deltaX = clientX - this.startX
-    const deltaY = clientY - this.startY
+    // Apply movement mode, let the hooks veto or rewrite it, then update reactive state
+    const newState = this.runBeforeHooks('beforeDrag', this.geometry.move(this.startState, deltaX, deltaY, this.reactiveState.mode))
+    if (!newState) return
 
-    // Apply movement mode and update reactive state
-    const newState = this.applyMovementMode(deltaX, deltaY)
     this.setState(newState)
 
     this.eventEmitter.emit('drag', {
@@ -878,12 +1795,23 @@ export class ContainerManager implements ContainerManagerInterface
    */
   onDragEnd(): void
   {
+    if (!this.isDragging) return
+
+    // Commit the movement still waiting for its frame
+    this.frameScheduler.flush()
+    this.stopAutoScroll()
     this.isDragging = false
 
-    document.removeEventListener('mousemove', this.onDragMove)
-    document.removeEventListener('mouseup', this.onDragEnd)
-    document.removeEventListener('touchmove', this.onDragMove)
-    document.removeEventListener('touchend', this.onDragEnd)
+    // The glide starts before dragEnd, so listeners can tell the release point isn't final
+    const gliding = this.startInertia(this.getReleaseVelocity())
+    const step = this.recordGeometry('drag', this.startState)
+
+    this.maximizedDrag?.history?.endGroup()
+    this.maximizedDrag = null
+
+    if (gliding) {
+      this.glideHistory = step
+    }
 
     this.eventEmitter.emit('dragEnd', {
       type: 'drag',
@@ -891,331 +1819,1531 @@ export class ContainerManager implements ContainerManagerInterface
       mode: this.reactiveState.mode,
       element: this.container
     })
+
+    if (gliding) {
+      this.eventEmitter.emit('inertiaStart', {
+        type: 'inertia',
+        state: this.getState(),
+        mode: this.reactiveState.mode,
+        element: this.container
+      })
+    }
   }
 
   /**
-   * Handle resize start event with direction
+   * Record pointer samples for the release velocity, keeping only the recent window
    */
-  onResizeStart(e: MouseEvent | TouchEvent, direction: ResizeDirection): void
+  private sampleVelocity(e: PointerEvent): void
   {
-    e.preventDefault()
-    e.stopPropagation()
+    if (!this.config.inertia?.enabled) return
 
-    this.bringToFront()
-    this.isResizing = true
-    this.resizeDirection = direction
+    // Moves commit once per frame, the coalesced samples between them still shape the release velocity
+    for (const sample of PointerInput.getCoalescedEvents(e)) {
+      const { clientX, clientY } = this.directionResolver(sample.clientX, sample.clientY)
+      this.velocitySamples.push({ x: clientX, y: clientY, t: sample.timeStamp })
+    }
+
+    const cutoff = e.timeStamp - ContainerManager.VELOCITY_WINDOW
+    while (this.velocitySamples.length > 2 && this.velocitySamples[0].t < cutoff) {
+      this.velocitySamples.shift()
+    }
+  }
 
-    const clientX = e instanceof MouseEvent ? e.clientX : e.touches[0].clientX
-    const clientY = e instanceof MouseEvent ? e.clientY : e.touches[0].clientY
+  /**
+   * Get pointer velocity (px/ms) at release, zero if the pointer rested before it
+   */
+  private getReleaseVelocity(): { x: number; y: number }
+  {
+    const samples = this.velocitySamples
+    this.velocitySamples = []
 
-    this.startX = clientX
-    this.startY = clientY
-    this.startState = this.getState()
+    if (samples.length < 2) return { x: 0, y: 0 }
 
-    document.addEventListener('mousemove', this.onResizeMove)
-    document.addEventListener('mouseup', this.onResizeEnd)
-    document.addEventListener('touchmove', this.onResizeMove)
-    document.addEventListener('touchend', this.onResizeEnd)
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const duration = last.t - first.t
 
-    this.eventEmitter.emit('resizeStart', {
-      type: 'resize',
-      state: this.getState(),
-      mode: this.reactiveState.mode,
-      element: this.container,
-      direction
-    })
+    if (duration <= 0 || performance.now() - last.t > ContainerManager.VELOCITY_WINDOW) {
+      return { x: 0, y: 0 }
+    }
+
+    return {
+      x: (last.x - first.x) / duration / this.gestureScale.x,
+      y: (last.y - first.y) / duration / this.gestureScale.y
+    }
   }
 
   /**
-   * Handle resize movement with multi-direction support and reactive updates
+   * Start gliding with the release velocity, decelerating by friction
+   * Returns false when inertia is disabled or the flick is too slow
    */
-  onResizeMove(e: MouseEvent | TouchEvent): void
+  private startInertia(velocity: { x: number; y: number }): boolean
   {
-    if (!this.isResizing || !this.resizeDirection) return
+    const inertia: InertiaConfig = this.config.inertia || {}
+    const minVelocity = inertia.minVelocity ?? 0.3
+
+    // A glide would leave the container off the grid
+    if (!inertia.enabled || this.reactiveState.mode === 'snap') return false
+    if (Math.hypot(velocity.x, velocity.y) < minVelocity) return false
+    if (typeof requestAnimationFrame === 'undefined') return false
+
+    const friction = clamp(inertia.friction ?? 0.95, 0, 1)
+    const bounce = clamp(inertia.bounce ?? 0, 0, 1)
+    const speed = { ...velocity }
+
+    let lastTime = performance.now()
+
+    const step = (now: number) => {
+      // Long frames (background tabs) must not throw the container across the screen
+      const elapsed = Math.min(now - lastTime, 64)
+      lastTime = now
+
+      const decay = Math.pow(friction, elapsed / 16.67)
+      speed.x *= decay
+      speed.y *= decay
+
+      const state = this.getState()
+      const next = {
+        ...state,
+        x: state.x + speed.x * elapsed,
+        y: state.y + speed.y * elapsed
+      }
 
-    const clientX = e instanceof MouseEvent ? e.clientX : e.touches[0].clientX
-    const clientY = e instanceof MouseEvent ? e.clientY : e.touches[0].clientY
+      // Stop or bounce at the edges of the constraint box
+      const box = this.getConstraintBox()
+      if (box) {
+        const bounds = this.geometry.getBoundingBox(next)
+        const maxX = box.x + box.width - bounds.width
+        const maxY = box.y + box.height - bounds.height
+
+        if (bounds.x < box.x || bounds.x > maxX) {
+          next.x += clamp(bounds.x, box.x, Math.max(box.x, maxX)) - bounds.x
+          speed.x = -speed.x * bounce
+        }
+        if (bounds.y < box.y || bounds.y > maxY) {
+          next.y += clamp(bounds.y, box.y, Math.max(box.y, maxY)) - bounds.y
+          speed.y = -speed.y * bounce
+        }
+      }
 
-    const deltaX = clientX - this.startX
-    const deltaY = clientY - this.startY
+      this.setState(next)
 
-    const newState = this.calculateResizeState(deltaX, deltaY, this.resizeDirection)
+      if (Math.hypot(speed.x, speed.y) < ContainerManager.INERTIA_REST_SPEED) {
+        this.inertiaFrameId = null
+        this.emitInertiaEnd()
+        return
+      }
 
-    // Use reactive state update which will automatically apply constraints
-    this.setState(newState)
+      this.inertiaFrameId = requestAnimationFrame(step)
+    }
 
-    this.eventEmitter.emit('resize', {
-      type: 'resize',
-      state: this.getState(),
-      mode: this.reactiveState.mode,
-      direction: this.resizeDirection,
-      element: this.container
-    })
+    this.inertiaFrameId = requestAnimationFrame(step)
+
+    return true
   }
 
   /**
-   * Handle resize end event
+   * Stop a running glide where it is
+   */
+  private stopInertia(): void
+  {
+    if (this.inertiaFrameId === null) return
+
+    cancelAnimationFrame(this.inertiaFrameId)
+    this.inertiaFrameId = null
+    this.emitInertiaEnd()
+  }
+
+  /**
+   * Emit inertiaEnd with the resting position
+   */
+  private emitInertiaEnd(): void
+  {
+    // The drag step ends where the glide came to rest
+    if (this.glideHistory) {
+      this.glideHistory.after = this.getState()
+      this.glideHistory = null
+    }
+
+    this.eventEmitter.emit('inertiaEnd', {
+      type: 'inertia',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Check if the container is gliding after a flick
+   */
+  isInertiaActive(): boolean
+  {
+    return this.inertiaFrameId !== null
+  }
+
+  /**
+   * Handle resize start event with direction
+   */
+  onResizeStart(e: PointerEvent, direction: ResizeDirection): void
+  {
+    this.stopInertia()
+    this.stopAnimation()
+
+    // A maximized, collapsed or fullscreen container has no edges to pull
+    if (this.windowState !== 'normal' || this.collapsed || this.fullscreen) return
+
+    e.preventDefault()
+    e.stopPropagation()
+
+    this.bringToFront()
+    this.isResizing = true
+    this.resizeDirection = direction
+
+    this.startX = e.clientX
+    this.startY = e.clientY
+    this.startState = this.getState()
+    this.gestureScale = this.getScale()
+    this.startAutoScroll()
+    this.reactiveState.aspectRatio = this.resolveAspectRatio(e.shiftKey)
+    this.resizeCentered = this.resolveCentered(e.altKey)
+
+    this.eventEmitter.emit('resizeStart', {
+      type: 'resize',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container,
+      direction
+    })
+  }
+
+  /**
+   * Handle resize movement with multi-direction support and reactive updates
+   */
+  onResizeMove(e: PointerEvent): void
+  {
+    if (!this.isResizing) return
+
+    this.pendingMove = e
+    this.trackPointer(this.pendingMove)
+    this.frameScheduler.schedule(() => this.commitResizeMove())
+  }
+
+  /**
+   * Commit the latest pointer position of the frame as one resize step
+   */
+  private commitResizeMove(): void
+  {
+    const e = this.pendingMove
+    if (!this.isResizing || !this.resizeDirection || !e) return
+
+    this.pendingMove = null
+
+    // Handles of a rotated container work in its local frame, so turn the pointer delta back
+    const radians = -(this.startState.angle ?? 0) * Math.PI / 180
+    const worldX = (e.clientX - this.startX) / this.gestureScale.x
+    const worldY = (e.clientY - this.startY) / this.gestureScale.y
+    const deltaX = worldX * Math.cos(radians) - worldY * Math.sin(radians)
+    const deltaY = worldX * Math.sin(radians) + worldY * Math.cos(radians)
+
+    // Shift and Alt can be pressed or released mid-gesture
+    this.reactiveState.aspectRatio = this.resolveAspectRatio(e.shiftKey)
+    this.resizeCentered = this.resolveCentered(e.altKey)
+
+    const newState = this.runBeforeHooks(
+      'beforeResize',
+      this.calculateResizeState(deltaX, deltaY, this.resizeDirection),
+      this.resizeDirection
+    )
+    if (!newState) return
+
+    // Use reactive state update which will automatically apply constraints
+    this.setState(newState)
+
+    this.eventEmitter.emit('resize', {
+      type: 'resize',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      direction: this.resizeDirection,
+      element: this.container
+    })
+  }
+
+  /**
+   * Handle resize end event
    */
   onResizeEnd(): void
   {
-    this.isResizing = false
-    this.resizeDirection = null
+    if (!this.isResizing) return
+
+    // Commit the resize step still waiting for its frame
+    this.frameScheduler.flush()
+    this.stopAutoScroll()
+
+    // Commit the ratio-aware constrained size before the lock is released
+    if (this.reactiveState.aspectRatio) {
+      this.setConstrainedState(this.getState())
+      this.reactiveState.aspectRatio = null
+    }
+
+    this.isResizing = false
+    this.resizeDirection = null
+    this.recordGeometry('resize', this.startState)
+
+    this.eventEmitter.emit('resizeEnd', {
+      type: 'resize',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Create the auto-scroller when enabled
+   */
+  private initializeAutoScroll(): void
+  {
+    const config: AutoScrollConfig = this.config.autoScroll || {}
+    if (!config.enabled) return
+
+    this.autoScroller = new AutoScroller(config, this.onAutoScroll.bind(this))
+  }
+
+  /**
+   * Start auto-scrolling for a drag or resize
+   */
+  private startAutoScroll(): void
+  {
+    if (!this.autoScroller) return
+
+    this.scrollOrigin = this.convertPoint({ x: 0, y: 0 }, this.getCoordinateSpace(), 'viewport')
+    this.autoScroller.start(this.container)
+  }
+
+  /**
+   * Remember the gesture pointer and hand it to the auto-scroller
+   */
+  private trackPointer(e: PointerEvent): void
+  {
+    this.lastPointer = e
+    this.autoScroller?.update(e.clientX, e.clientY)
+  }
+
+  /**
+   * Keep the container under a resting pointer while an ancestor scrolls beneath it
+   */
+  private onAutoScroll(): void
+  {
+    const pointer = this.lastPointer
+    if (!pointer || (!this.isDragging && !this.isResizing)) return
+
+    // The gesture origin travels on screen with the space the state is measured in,
+    // a fixed container or the viewport space doesn't move at all. The shift is in local pixels,
+    // the gesture origin in screen pixels, which the commit divides by the same gesture scale
+    const origin = this.convertPoint({ x: 0, y: 0 }, this.getCoordinateSpace(), 'viewport')
+    this.startX += (origin.x - this.scrollOrigin.x) * this.gestureScale.x
+    this.startY += (origin.y - this.scrollOrigin.y) * this.gestureScale.y
+    this.scrollOrigin = origin
+
+    this.pendingMove = pointer
+    this.frameScheduler.schedule(() => this.isDragging ? this.commitDragMove() : this.commitResizeMove())
+  }
+
+  /**
+   * Stop auto-scrolling at the end of a gesture
+   */
+  private stopAutoScroll(): void
+  {
+    this.autoScroller?.stop()
+    this.lastPointer = null
+  }
+
+  /**
+   * Record a committed geometry change from the given start state
+   * Returns the recorded end state, a glide moves it until the container rests
+   */
+  private recordGeometry(type: string, before: ContainerState): { after: ContainerState } | null
+  {
+    const step = { after: this.getState() }
+    const changed = (Object.keys(step.after) as (keyof ContainerState)[])
+      .some(key => step.after[key] !== before[key])
+
+    if (!this.history || !changed) return null
+
+    this.history.record({
+      type,
+      target: this,
+      undo: () => this.setState(before),
+      redo: () => this.setState(step.after)
+    })
+
+    return step
+  }
+
+  /**
+   * Get the history this manager records into
+   */
+  getHistory(): History | null
+  {
+    return this.history
+  }
+
+  /**
+   * Record into another history, e.g. one shared by the whole workspace, or null to stop recording
+   */
+  setHistory(history: History | null): void
+  {
+    this.history?.clear(this)
+    this.history = history
+  }
+
+  /**
+   * Undo the latest step of this container
+   */
+  undo(): boolean
+  {
+    if (this.isDragging || this.isResizing || this.isRotating) return false
+
+    this.stopInertia()
+    this.stopAnimation()
+    return this.history?.undo(this) ?? false
+  }
+
+  /**
+   * Redo the latest undone step of this container
+   */
+  redo(): boolean
+  {
+    if (this.isDragging || this.isResizing || this.isRotating) return false
+
+    this.stopInertia()
+    this.stopAnimation()
+    return this.history?.redo(this) ?? false
+  }
+
+  /**
+   * Abort the drag or resize in progress and return to the geometry it started from
+   * dragCancel / resizeCancel is emitted once the start geometry is restored
+   * Returns false when no gesture is active
+   */
+  cancelGesture(duration?: number): boolean
+  {
+    if (!this.isDragging && !this.isResizing && !this.isRotating) return false
+
+    const type = this.isDragging ? 'drag' : this.isResizing ? 'resize' : 'rotate'
+    const direction = this.resizeDirection
+
+    this.frameScheduler.cancel()
+    this.stopAutoScroll()
+    this.pendingMove = null
+    this.velocitySamples = []
+    this.isDragging = false
+    this.isResizing = false
+    this.isRotating = false
+    this.resizeDirection = null
+    this.reactiveState.aspectRatio = null
+
+    // Release the captured pointer, its cancel handler finds no gesture left
+    this.dragInputs.forEach(input => input.cancel())
+    this.resizeInputs.forEach(input => input.cancel())
+    this.rotateInput?.cancel()
+
+    const config: GestureCancelConfig = this.config.gestureCancel || {}
+    const animation = { duration: duration ?? config.duration ?? 0 }
+    const emitCancel = () => {
+      this.eventEmitter.emit(`${type}Cancel`, {
+        type,
+        state: this.getState(),
+        mode: this.reactiveState.mode,
+        element: this.container,
+        ...(direction && { direction })
+      })
+    }
+
+    const maximized = this.maximizedDrag
+    this.maximizedDrag = null
+
+    // A drag out of a maximized window maximizes it again, the restore it began with is dropped
+    if (maximized) {
+      maximized.history?.cancelGroup()
+
+      const remaximize = () => this.maximize(maximized.target, animation)
+      const done = this.history ? this.history.ignore(remaximize) : remaximize()
+
+      this.restoreState = maximized.restoreState
+      done.then(emitCancel)
+
+      return true
+    }
+
+    // The cancel event fires even when a new gesture cuts the glide back short
+    this.runAnimation(this.startState, animation, emitCancel)
+
+    return true
+  }
+
+  /**
+   * Animate to a state, the promise resolves true when it arrives
+   * and false when a gesture, a new animation or stopAnimation() interrupts it
+   */
+  animateTo(state: Partial<ContainerState>, options: AnimationOptions = {}): Promise<boolean>
+  {
+    return new Promise(resolve => this.runAnimation(state, options, resolve))
+  }
+
+  /**
+   * Stop a running animation where it is
+   */
+  stopAnimation(): void
+  {
+    if (!this.animation) return
+
+    cancelAnimationFrame(this.animation.frameId)
+    this.animation.finish(false)
+  }
+
+  /**
+   * Run a transition frame by frame, emitting animateStart, animate and animateEnd
+   */
+  private runAnimation(
+    state: Partial<ContainerState>,
+    options: AnimationOptions,
+    done: (completed: boolean) => void
+  ): void {
+    this.stopAnimation()
+    this.stopInertia()
+
+    const from = this.getState()
+    const target: ContainerState = { ...from, ...state }
+    const duration = this.prefersReducedMotion() ? 0 : Math.max(0, options.duration ?? 300)
+    const ease = this.resolveEasing(options.easing)
+
+    // Turn the short way round
+    const turn = ((target.angle ?? 0) - (from.angle ?? 0) + 540) % 360 - 180
+
+    let progress = 0
+
+    const emit = (event: string) => {
+      this.eventEmitter.emit(event, {
+        type: 'animate',
+        state: this.getState(),
+        mode: this.reactiveState.mode,
+        element: this.container,
+        progress
+      })
+    }
+
+    const finish = (completed: boolean) => {
+      this.animation = null
+      emit('animateEnd')
+      done(completed)
+    }
+
+    emit('animateStart')
+
+    if (duration === 0 || typeof requestAnimationFrame === 'undefined') {
+      progress = 1
+      this.setState(target)
+      emit('animate')
+      finish(true)
+      return
+    }
+
+    const startTime = performance.now()
+
+    const step = (now: number) => {
+      // The user takes over from the animation
+      if (this.isDragging || this.isResizing || this.isRotating) {
+        finish(false)
+        return
+      }
+
+      progress = clamp((now - startTime) / duration, 0, 1)
+      const eased = ease(progress)
+
+      this.setState({
+        x: from.x + (target.x - from.x) * eased,
+        y: from.y + (target.y - from.y) * eased,
+        width: from.width + (target.width - from.width) * eased,
+        height: from.height + (target.height - from.height) * eased,
+        angle: this.geometry.rotate(from.angle ?? 0, turn * eased)
+      })
+
+      emit('animate')
+
+      if (progress < 1) {
+        this.animation!.frameId = requestAnimationFrame(step)
+        return
+      }
+
+      finish(true)
+    }
+
+    this.animation = { frameId: requestAnimationFrame(step), finish }
+  }
+
+  /**
+   * Get the easing function for a named curve or pass a custom one through
+   */
+  private resolveEasing(easing: EasingName | ((progress: number) => number) = 'ease-out'): (progress: number) => number
+  {
+    if (typeof easing === 'function') return easing
+
+    switch (easing) {
+      case 'linear':
+        return t => t
+      case 'ease-in':
+        return t => t * t * t
+      case 'ease-in-out':
+        return t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+      default:
+        return t => 1 - Math.pow(1 - t, 3)
+    }
+  }
+
+  /**
+   * Check if the user asked the system to minimize motion
+   */
+  private prefersReducedMotion(): boolean
+  {
+    return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  }
+
+  /**
+   * Handle rotate start - the pointer angle around the center is the reference
+   */
+  onRotateStart(e: PointerEvent): void
+  {
+    this.stopInertia()
+    this.stopAnimation()
+
+    if (this.reactiveState.mode === 'pinned' || this.windowState !== 'normal' || this.fullscreen) return
+
+    e.preventDefault()
+    e.stopPropagation()
+
+    this.bringToFront()
+    this.isRotating = true
+
+    // The rotated bounding box shares its center with the container
+    const rect = this.container.getBoundingClientRect()
+    this.rotateCenter = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+    this.rotatePointerAngle = this.getPointerAngle(e)
+    this.startState = this.getState()
+
+    this.eventEmitter.emit('rotateStart', {
+      type: 'rotate',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Handle rotate movement, committed once per frame
+   */
+  onRotateMove(e: PointerEvent): void
+  {
+    if (!this.isRotating) return
+
+    this.pendingMove = e
+    this.frameScheduler.schedule(() => this.commitRotateMove())
+  }
+
+  /**
+   * Commit the latest pointer position of the frame as one rotate step
+   */
+  private commitRotateMove(): void
+  {
+    const e = this.pendingMove
+    if (!this.isRotating || !e) return
+
+    this.pendingMove = null
+
+    const rotation: RotationConfig = this.config.rotation || {}
+    const turn = this.getPointerAngle(e) - this.rotatePointerAngle
+
+    this.setState({ angle: this.geometry.rotate(this.startState.angle ?? 0, turn, rotation.step || 0) })
+
+    this.eventEmitter.emit('rotate', {
+      type: 'rotate',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Handle rotate end event
+   */
+  onRotateEnd(): void
+  {
+    if (!this.isRotating) return
+
+    // Commit the rotate step still waiting for its frame
+    this.frameScheduler.flush()
+    this.isRotating = false
+    this.recordGeometry('rotate', this.startState)
+
+    this.eventEmitter.emit('rotateEnd', {
+      type: 'rotate',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Get the pointer angle in degrees around the rotation center
+   */
+  private getPointerAngle(e: PointerEvent): number
+  {
+    return Math.atan2(e.clientY - this.rotateCenter.y, e.clientX - this.rotateCenter.x) * 180 / Math.PI
+  }
+
+  /**
+   * Set movement direction
+   */
+  setDirection(direction: DirectionMode): void
+  {
+    this.reactiveState.draggingDirection = direction
+
+    this.emitPluginEvent('directionChanged', { direction })
+  }
+
+  /**
+   * Get current movement direction
+   */
+  getDirection(): DirectionMode
+  {
+    return this.reactiveState.draggingDirection
+  }
+
+  /**
+   * Set grid size used by the snap mode
+   */
+  setSnapStep(step: number): void
+  {
+    if (!(step > 0)) return
+
+    this.config.snapStep = step
+    this.geometry.setRules({ snapStep: step })
+    this.emitPluginEvent('snapStepChanged', { snapStep: step })
+  }
+
+  /**
+   * Get grid size used by the snap mode
+   */
+  getSnapStep(): number
+  {
+    return this.config.snapStep ?? 10
+  }
+
+  /**
+   * Resolve coordinates based on current direction mode
+   */
+  directionResolver(x: number, y: number)
+  {
+    const origin = { x: this.startX, y: this.startY }
+    const point = this.geometry.lockDirection({ x, y }, origin, this.reactiveState.draggingDirection)
+
+    return { clientX: point.x, clientY: point.y }
+  }
+
+  /**
+   * Get current movement mode
+   */
+  getMode(): MovementMode
+  {
+    return this.reactiveState.mode
+  }
+
+  /**
+   * Set movement mode with reactive update
+   */
+  setMode(mode: MovementMode): void
+  {
+    const previous = this.reactiveState.mode
+    this.reactiveState.mode = mode
+
+    if (previous !== mode) {
+      this.history?.record({
+        type: 'modeChange',
+        target: this,
+        undo: () => this.setMode(previous),
+        redo: () => this.setMode(mode)
+      })
+    }
+
+    this.eventEmitter.emit('modeChange', {
+      type: 'modeChange',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container
+    })
+  }
+
+  /**
+   * Update container boundaries
+   */
+  setBoundaries(boundaries: Partial<Boundaries>): void
+  {
+    this.config.boundaries = {
+      ...this.config.boundaries,
+      ...boundaries
+    }
+
+    this.geometry.setRules({ boundaries: this.config.boundaries })
+  }
+
+  /**
+   * Get current container state (reactive)
+   */
+  getState(): ContainerState
+  {
+    return {
+      x: this.reactiveState.x,
+      y: this.reactiveState.y,
+      width: this.reactiveState.width,
+      height: this.reactiveState.height,
+      angle: this.reactiveState.angle
+    }
+  }
+
+  /**
+   * Update container position and size with reactive state
+   */
+  setState(state: Partial<ContainerState>): void
+  {
+    if (this.writeState(state)) {
+      this.trackRelativeState(this.constrainedState.value)
+    }
+  }
+
+  /**
+   * Run the state hooks and write the fields, false when a hook cancels the change
+   */
+  private writeState(state: Partial<ContainerState>): boolean
+  {
+    if (this.beforeHooks.get('beforeStateChange')?.length) {
+      const proposed = this.runBeforeHooks('beforeStateChange', { ...this.getState(), ...state })
+      if (!proposed) return false
+
+      state = proposed
+    }
+
+    // Batch the fields, so the DOM effect writes and emits stateChange once per commit
+    batch(() => {
+      if (state.height !== undefined) this.reactiveState.height = state.height
+      if (state.width !== undefined) this.reactiveState.width = state.width
+      if (state.x !== undefined) this.reactiveState.x = state.x
+      if (state.y !== undefined) this.reactiveState.y = state.y
+      if (state.angle !== undefined) this.reactiveState.angle = state.angle
+    })
+
+    return true
+  }
+
+  /**
+   * Write geometry to the element using the configured positioning mode
+   * Transform mode moves the container with translate3d, so dragging never forces layout
+   */
+  private writeStateToDOM(state: ContainerState): void
+  {
+    const { style } = this.container
+    const rotate = state.angle ? `rotate(${state.angle}deg)` : ''
+    const { x, y } = this.convertPoint(state, this.getCoordinateSpace(), 'offsetParent')
+
+    if (this.config.positioning === 'transform') {
+      // Offsets stay pinned to the origin, something else (like docking) may have changed them
+      if (style.left !== '0px') style.left = '0px'
+      if (style.top !== '0px') style.top = '0px'
+
+      style.transform = `translate3d(${x}px, ${y}px, 0) ${rotate}`.trim()
+    } else {
+      style.left = `${x}px`
+      style.top = `${y}px`
+
+      // Leave foreign transforms alone unless rotation is in use
+      if (rotate || this.config.rotation?.enabled) {
+        style.transform = rotate
+      }
+    }
+
+    style.width = `${state.width}px`
+    style.height = `${state.height}px`
+  }
+
+  /**
+   * Bring container to front programmatically
+   */
+  bringToFront(): void
+  {
+    const { _uid } = this.config
+    this.container.style.zIndex = this.zIndexState.sort(_uid).zIndex(_uid)
+  }
+
+  /**
+   * Get container DOM element
+   */
+  getContainer(): HTMLElement
+  {
+    return this.container
+  }
+
+  /**
+   * Get how geometry is written to the DOM
+   */
+  getPositioning(): PositioningMode
+  {
+    return this.config.positioning ?? 'offset'
+  }
+
+  /**
+   * Get pointer input layer of the drag handle, shared with plugins
+   * With several handles it is the one running the gesture, or the first
+   */
+  getDragInput(): PointerInput | null
+  {
+    return this.dragInputs.find(input => input.isActive()) ?? this.dragInputs[0] ?? null
+  }
+
+  /**
+   * Get the elements that start a drag
+   */
+  getDragHandles(): HTMLElement[]
+  {
+    return [...this.dragHandles]
+  }
+
+  /**
+   * Update auto-adjust configuration
+   */
+  setAutoAdjust(config: AutoAdjustConfig): void
+  {
+    this.config.autoAdjust = { ...this.config.autoAdjust, ...config }
+
+    // Restart parent observer if auto-adjust is enabled
+    if (this.parentResizeObserver) {
+      this.parentResizeObserver.disconnect()
+      this.parentResizeObserver = null
+    }
+
+    if (this.config.autoAdjust?.enabled) {
+      this.setupParentResizeObserver()
+    }
+  }
+
+  /**
+   * Update resize configuration
+   */
+  setResizeConfig(config: ResizeConfig): void
+  {
+    this.config.resize = { ...this.config.resize, ...config }
+
+    // Remove existing resize handles
+    this.unbindResizeEvents()
+    this.resizeHandles.forEach(handle => handle.remove())
+    this.resizeHandles.clear()
+
+    // Initialize new resize handles if enabled
+    if (this.config.resize?.enabled) {
+      this.initializeResizeHandles()
+      this.bindResizeEvents()
+      this.syncResizeHandles()
+    }
+  }
+
+  /**
+   * Set constrain to parent configuration
+   */
+  setConstrainToParent(enabled: boolean): void
+  {
+    this.config.constrainToParent = enabled
+
+    // Update viewport observer based on new constraint configuration
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect()
+      this.resizeObserver = null
+    }
+
+    if (this.shouldConstrainToViewport()) {
+      this.setupViewportResizeObserver()
+    }
+  }
+
+  /**
+   * Set constrain to viewport configuration
+   */
+  setConstrainToViewport(enabled: boolean): void
+  {
+    this.config.constrainToViewport = enabled
+
+    // Restart viewport observer if enabled
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect()
+      this.resizeObserver = null
+    }
+
+    if (this.shouldConstrainToViewport()) {
+      this.setupViewportResizeObserver()
+    }
+  }
+
+  /**
+   * Confine the container to an element, a selector or a rectangle, null removes the region
+   */
+  setConstrainTo(target: ConstraintTarget | null): void
+  {
+    this.config.constrainTo = target
+
+    // The default viewport constraint only applies without a region
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect()
+      this.resizeObserver = null
+    }
+
+    if (this.shouldConstrainToViewport()) {
+      this.setupViewportResizeObserver()
+    }
+
+    this.setupConstraintResizeObserver()
+    this.applyConstrainTo()
+
+    // Fractions are measured against the new box from now on
+    if (this.relativeResizeObserver) {
+      this.relativeResizeObserver.disconnect()
+      this.setupRelativeResizeObserver()
+    }
+  }
+
+  /**
+   * Recalculate container state relative to parent element
+   */
+  recalculateForParent(animation?: AnimationOptions): void
+  {
+    if (!this.config.constrainToParent || !this.container.parentElement) {
+      return
+    }
+
+    const parentRect = this.getParentBox()
+    const currentState = this.getState()
+
+    // If the parent has zero dimensions, exit
+    if (!parentRect) return
+
+    if (this.windowState === 'maximized') {
+      this.commitRecalculated(this.getMaximizedState(), animation)
+      return
+    }
+
+    // Relative geometry follows the parent both ways, not only by shrinking
+    if (this.relativeState) {
+      const state = this.fromRelativeState(this.relativeState)
+      if (state) this.commitRecalculated(state, animation)
+      return
+    }
+
+    // Keep the desired dimensions, but limit them to the parent dimensions
+    const desiredWidth = currentState.width
+    const desiredHeight = currentState.height
+
+    const newWidth = Math.min(desiredWidth, parentRect.width)
+    const newHeight = Math.min(desiredHeight, parentRect.height)
+
+    // Save the desired coordinates, but limit them to the parent dimensions
+    const desiredX = currentState.x
+    const desiredY = currentState.y
+
+    const newX = Math.min(desiredX, parentRect.x + parentRect.width - newWidth)
+    const newY = Math.min(desiredY, parentRect.y + parentRect.height - newHeight)
+
+    this.commitRecalculated({
+      x: newX,
+      y: newY,
+      width: newWidth,
+      height: newHeight
+    }, animation)
+  }
+
+  /**
+   * Apply the recalculated state, animated when asked, then emit parentRecalculated
+   */
+  private commitRecalculated(state: Partial<ContainerState>, animation?: AnimationOptions): void
+  {
+    const emit = () => {
+      this.eventEmitter.emit('parentRecalculated', {
+        type: 'parentRecalculated',
+        state: this.getState(),
+        mode: this.reactiveState.mode,
+        element: this.container
+      })
+    }
+
+    if (animation) {
+      this.animateTo(state, animation).then(emit)
+      return
+    }
+
+    // Use reactive state update
+    this.setState(state)
+    emit()
+  }
+
+  /**
+   * Get whether the container is normal, maximized or minimized
+   */
+  getWindowState(): WindowState
+  {
+    return this.windowState
+  }
+
+  /**
+   * Get the geometry restore() returns to, null while the container is normal
+   */
+  getRestoreState(): ContainerState | null
+  {
+    return this.windowState === 'normal' ? null : this.getNormalState()
+  }
 
-    document.removeEventListener('mousemove', this.onResizeMove)
-    document.removeEventListener('mouseup', this.onResizeEnd)
-    document.removeEventListener('touchmove', this.onResizeMove)
-    document.removeEventListener('touchend', this.onResizeEnd)
+  /**
+   * Fill the viewport or the parent, keeping the current geometry for restore()
+   * The promise resolves like animateTo(), maximizeChanged is emitted once the transition ends
+   */
+  maximize(target?: MaximizeTarget, animation?: AnimationOptions): Promise<boolean>
+  {
+    const config: WindowStateConfig = this.config.windowState || {}
+    const previous = this.windowState
+    const fill = target ?? config.maximizeTo ?? 'viewport'
 
-    this.eventEmitter.emit('resizeEnd', {
-      type: 'resize',
-      state: this.getState(),
-      mode: this.reactiveState.mode,
-      element: this.container
-    })
+    if (previous === 'maximized' && fill === this.maximizeTarget) return Promise.resolve(true)
+
+    // Expanding a collapsed container and maximizing it are one step
+    this.history?.beginGroup()
+
+    // The whole container fills the box, not only its title bar
+    if (this.collapsed) {
+      this.expand({ duration: 0 })
+    }
+
+    if (previous === 'normal') {
+      this.restoreState = this.getState()
+    }
+
+    this.show()
+    this.maximizeTarget = fill
+    this.setWindowState('maximized', previous)
+    this.history?.endGroup()
+    this.observeMaximized()
+
+    return this.animateTo(this.getMaximizedState(), animation ?? this.getWindowAnimation())
+      .then(completed => this.emitWindowState('maximizeChanged', completed))
   }
 
   /**
-   * Set movement direction
+   * Hide the container, restore() brings it back as it was, maximized or not
    */
-  setDirection(direction: DirectionMode): void
+  minimize(): void
   {
-    this.reactiveState.draggingDirection = direction
+    const previous = this.windowState
+    if (previous === 'minimized') return
 
-    this.emitPluginEvent('directionChanged', { direction })
+    this.stopInertia()
+    this.stopAnimation()
+
+    if (previous === 'normal') {
+      this.restoreState = this.getState()
+    }
+
+    this.minimizedFrom = previous
+    this.unobserveMaximized()
+    this.setWindowState('minimized', previous)
+
+    this.display = this.container.style.display
+    this.container.style.display = 'none'
+
+    this.emitWindowState('minimizeChanged', true)
   }
 
   /**
-   * Get current movement direction
+   * Leave the maximized or minimized state, a minimized container that was maximized is maximized again
    */
-  getDirection(): DirectionMode
+  restore(animation?: AnimationOptions): Promise<boolean>
   {
-    return this.reactiveState.draggingDirection
+    if (this.windowState === 'minimized' && this.minimizedFrom === 'maximized') {
+      return this.maximize(this.maximizeTarget, animation)
+    }
+
+    return this.restoreNormal(animation)
   }
 
   /**
-   * Resolve coordinates based on current direction mode
+   * Go back to the normal geometry, optionally placed elsewhere
    */
-  directionResolver(x: number, y: number)
+  private restoreNormal(animation?: AnimationOptions, position?: { x: number; y: number }): Promise<boolean>
   {
-    const direction = this.reactiveState.draggingDirection
+    const previous = this.windowState
+    const normal = this.getNormalState()
 
-    // Determine which coordinates to lock based on direction mode
-    const lockX = direction === 'vertical'
-    const lockY = direction === 'horizontal'
+    if (previous === 'normal' || !normal) return Promise.resolve(true)
 
-    return {
-      clientX: lockX ? this.startX : x,
-      clientY: lockY ? this.startY : y
-    }
+    const event = previous === 'minimized' ? 'minimizeChanged' : 'maximizeChanged'
+
+    this.show()
+    this.unobserveMaximized()
+    this.setWindowState('normal', previous)
+    this.restoreState = null
+
+    return this.animateTo({ ...normal, ...position }, animation ?? this.getWindowAnimation())
+      .then(completed => this.emitWindowState(event, completed))
   }
 
   /**
-   * Get current movement mode
+   * Restore a maximized container under the pointer grabbing it,
+   * the grabbed point keeps its proportional place on the smaller container
    */
-  getMode(): MovementMode
+  private restoreUnderPointer(e: PointerEvent): void
   {
-    return this.reactiveState.mode
+    const normal = this.getNormalState()
+    if (!normal) return
+
+    const scale = this.getScale()
+    const pointer = this.convertPoint({ x: e.clientX / scale.x, y: e.clientY / scale.y }, 'viewport', this.getCoordinateSpace())
+    const current = this.getState()
+
+    const ratioX = clamp((pointer.x - current.x) / current.width, 0, 1)
+    const ratioY = clamp((pointer.y - current.y) / current.height, 0, 1)
+
+    this.restoreNormal({ duration: 0 }, {
+      x: pointer.x - ratioX * normal.width,
+      y: pointer.y - ratioY * normal.height
+    })
   }
 
   /**
-   * Set movement mode with reactive update
+   * Switch the window state, recording the switch as an undoable step
    */
-  setMode(mode: MovementMode): void
+  private setWindowState(state: WindowState, previous: WindowState): void
   {
-    this.reactiveState.mode = mode
+    this.windowState = state
+    this.container.dataset.windowState = state
+    this.syncResizeHandles()
+
+    const target = this.maximizeTarget
+    const apply = (to: WindowState) => {
+      if (to === 'maximized') this.maximize(target, { duration: 0 })
+      else if (to === 'minimized') this.minimize()
+      else this.restoreNormal({ duration: 0 })
+    }
 
-    this.eventEmitter.emit('modeChange', {
-      type: 'modeChange',
+    this.history?.record({
+      type: state === 'normal' ? 'restore' : state === 'maximized' ? 'maximize' : 'minimize',
+      target: this,
+      undo: () => apply(previous),
+      redo: () => apply(state)
+    })
+  }
+
+  /**
+   * Emit maximizeChanged or minimizeChanged
+   */
+  private emitWindowState(event: 'maximizeChanged' | 'minimizeChanged', completed: boolean): boolean
+  {
+    this.eventEmitter.emit(event, {
+      type: 'windowState',
       state: this.getState(),
       mode: this.reactiveState.mode,
-      element: this.container
+      element: this.container,
+      windowState: this.windowState
     })
+
+    return completed
   }
 
   /**
-   * Update container boundaries
+   * Get the geometry of the normal state, relative geometry rescales it to the current box
    */
-  setBoundaries(boundaries: Partial<Boundaries>): void
+  private getNormalState(): ContainerState | null
   {
-    this.config.boundaries = {
-      ...this.config.boundaries,
-      ...boundaries
-    }
+    if (!this.restoreState) return null
+
+    const relative = this.relativeState ? this.fromRelativeState(this.relativeState) : null
+    return { ...this.restoreState, ...relative }
   }
 
   /**
-   * Get current container state (reactive)
+   * Get the box a maximized container fills, the parent falls back to the viewport when it has no size
    */
-  getState(): ContainerState
+  private getMaximizedState(): ContainerState
   {
-    return {
-      x: this.reactiveState.x,
-      y: this.reactiveState.y,
-      width: this.reactiveState.width,
-      height: this.reactiveState.height
+    const box = (this.maximizeTarget === 'parent' && this.getParentBox()) || this.getViewportBox()
+    return { ...box, angle: 0 }
+  }
+
+  /**
+   * Keep a maximized container filling its box while the viewport, the parent or the scroll position change
+   */
+  private observeMaximized(): void
+  {
+    if (this.maximizeObserver || typeof ResizeObserver === 'undefined') return
+
+    this.maximizeObserver = new ResizeObserver(() => this.fitMaximized())
+    this.maximizeObserver.observe(document.body)
+
+    if (this.container.parentElement) {
+      this.maximizeObserver.observe(this.container.parentElement)
     }
+
+    this.container.ownerDocument.addEventListener('scroll', this.fitMaximized, { capture: true, passive: true })
   }
 
   /**
-   * Update container position and size with reactive state
+   * Stop following the maximized box
    */
-  setState(state: Partial<ContainerState>): void
+  private unobserveMaximized(): void
   {
-    // Update reactive state directly
-    if (state.height !== undefined) this.reactiveState.height = state.height
-    if (state.width !== undefined) this.reactiveState.width = state.width
-    if (state.x !== undefined) this.reactiveState.x = state.x
-    if (state.y !== undefined) this.reactiveState.y = state.y
+    this.maximizeObserver?.disconnect()
+    this.maximizeObserver = null
+    this.container.ownerDocument.removeEventListener('scroll', this.fitMaximized, { capture: true })
+  }
+
+  /**
+   * Fill the maximized box again, unless a transition is still heading there
+   */
+  private fitMaximized(): void
+  {
+    if (this.windowState !== 'maximized' || this.animation) return
 
-    this.applyStateToDOM()
+    this.setState(this.getMaximizedState())
   }
 
   /**
-   * Apply current state to DOM immediately for synchronization
+   * Show a minimized container again
    */
-  private applyStateToDOM(): void
+  private show(): void
   {
-    const state = this.getState()
+    if (this.windowState !== 'minimized') return
 
-    this.container.style.left = `${state.x}px`
-    this.container.style.top = `${state.y}px`
-    this.container.style.width = `${state.width}px`
-    this.container.style.height = `${state.height}px`
+    this.container.style.display = this.display
   }
 
   /**
-   * Bring container to front programmatically
+   * Check if the container is collapsed to its title bar
    */
-  bringToFront(): void
+  isCollapsed(): boolean
   {
-    const { _uid } = this.config
-    this.container.style.zIndex = this.zIndexState.sort(_uid).zIndex(_uid)
+    return this.collapsed
   }
 
   /**
-   * Get container DOM element
+   * Get the height expand() returns to, null while the container is expanded
    */
-  getContainer(): HTMLElement
+  getExpandedHeight(): number | null
   {
-    return this.container
+    if (!this.collapsed) return null
+
+    const relative = this.relativeState ? this.fromRelativeState(this.relativeState) : null
+    return relative?.height ?? this.expandedHeight
   }
 
   /**
-   * Update auto-adjust configuration
+   * Collapse to the height of the drag handle like a window shade, resize is off until expand()
+   * The promise resolves like animateTo(), collapseChanged is emitted once the transition ends
    */
-  setAutoAdjust(config: AutoAdjustConfig): void
+  collapse(animation?: AnimationOptions): Promise<boolean>
   {
-    this.config.autoAdjust = { ...this.config.autoAdjust, ...config }
+    if (this.collapsed || this.windowState !== 'normal') return Promise.resolve(false)
 
-    // Restart parent observer if auto-adjust is enabled
-    if (this.parentResizeObserver) {
-      this.parentResizeObserver.disconnect()
-      this.parentResizeObserver = null
-    }
+    const height = this.getCollapsedHeight()
 
-    if (this.config.autoAdjust?.enabled) {
-      this.setupParentResizeObserver()
-    }
+    this.expandedHeight = this.reactiveState.height
+    this.reactiveState.shadeHeight = height
+    this.setCollapsed(true)
+
+    return this.animateTo({ height }, animation ?? this.getWindowAnimation())
+      .then(completed => this.emitCollapse(completed))
   }
 
   /**
-   * Update resize configuration
+   * Expand a collapsed container back to its height
    */
-  setResizeConfig(config: ResizeConfig): void
+  expand(animation?: AnimationOptions): Promise<boolean>
   {
-    this.config.resize = { ...this.config.resize, ...config }
+    const height = this.getExpandedHeight()
+    if (height === null) return Promise.resolve(false)
 
-    // Remove existing resize handles
-    this.resizeHandles.forEach(handle => handle.remove())
-    this.resizeHandles.clear()
+    this.setCollapsed(false)
 
-    // Initialize new resize handles if enabled
-    if (this.config.resize?.enabled) {
-      this.initializeResizeHandles()
-      this.bindEvents()
-    }
+    return this.animateTo({ height }, animation ?? this.getWindowAnimation())
+      .then(completed => {
+        // Keep the floor until the end, or the height would jump up to minHeight first
+        if (!this.collapsed) this.reactiveState.shadeHeight = null
+        return this.emitCollapse(completed)
+      })
   }
 
   /**
-   * Set constrain to parent configuration
+   * Collapse an expanded container, expand a collapsed one
    */
-  setConstrainToParent(enabled: boolean): void
+  toggleCollapse(animation?: AnimationOptions): Promise<boolean>
   {
-    this.config.constrainToParent = enabled
+    return this.collapsed ? this.expand(animation) : this.collapse(animation)
+  }
 
-    // Update viewport observer based on new constraint configuration
-    if (this.resizeObserver) {
-      this.resizeObserver.disconnect()
-      this.resizeObserver = null
-    }
+  /**
+   * Switch the collapsed flag, recording the switch as an undoable step
+   */
+  private setCollapsed(collapsed: boolean): void
+  {
+    this.collapsed = collapsed
+    this.container.dataset.collapsed = String(collapsed)
+    this.syncResizeHandles()
+
+    const apply = (collapse: boolean) => collapse
+      ? this.collapse({ duration: 0 })
+      : this.expand({ duration: 0 })
+
+    this.history?.record({
+      type: collapsed ? 'collapse' : 'expand',
+      target: this,
+      undo: () => apply(!collapsed),
+      redo: () => apply(collapsed)
+    })
+  }
 
-    if (this.shouldConstrainToViewport()) {
-      this.setupViewportResizeObserver()
-    }
+  /**
+   * Emit collapseChanged
+   */
+  private emitCollapse(completed: boolean): boolean
+  {
+    this.eventEmitter.emit('collapseChanged', {
+      type: 'collapse',
+      state: this.getState(),
+      mode: this.reactiveState.mode,
+      element: this.container,
+      collapsed: this.collapsed
+    })
+
+    return completed
   }
 
   /**
-   * Set constrain to viewport configuration
+   * Get the height down to the bottom of the drag handle, borders included
+   * Without a separate handle the whole container is the title bar, so the default minimum height is used
    */
-  setConstrainToViewport(enabled: boolean): void
+  private getCollapsedHeight(): number
   {
-    this.config.constrainToViewport = enabled
+    const handle = this.keyboardHandles[0]
+    if (!handle) return GeometryEngine.MINHEIGHT
 
-    // Restart viewport observer if enabled
-    if (this.resizeObserver) {
-      this.resizeObserver.disconnect()
-      this.resizeObserver = null
-    }
+    // Offsets are layout pixels, unaffected by a scaled parent or a rotation
+    let bottom = handle.offsetHeight
 
-    if (this.shouldConstrainToViewport()) {
-      this.setupViewportResizeObserver()
+    for (let node: HTMLElement | null = handle; node && node !== this.container; node = node.offsetParent as HTMLElement | null) {
+      bottom += node.offsetTop
     }
+
+    // offsetTop starts inside the top border, the rest of the difference is the bottom border
+    return bottom + this.container.offsetHeight - this.container.clientHeight
   }
 
   /**
-   * Recalculate container state relative to parent element
+   * Get the configured transition of window state changes
    */
-  recalculateForParent(): void
+  private getWindowAnimation(): AnimationOptions
   {
-    if (!this.config.constrainToParent || !this.container.parentElement) {
-      return
-    }
+    const config: WindowStateConfig = this.config.windowState || {}
+    return { duration: config.duration ?? 200 }
+  }
 
-    const parentRect = this.container.parentElement.getBoundingClientRect()
-    const currentState = this.getState()
+  /**
+   * Hide the resize handles while the container is maximized, collapsed or fullscreen
+   */
+  private syncResizeHandles(): void
+  {
+    const disabled = this.windowState !== 'normal' || this.collapsed || this.fullscreen
 
-    // If the parent has zero dimensions, exit
-    if (parentRect.width === 0 || parentRect.height === 0) {
-      return
-    }
+    this.resizeHandles.forEach(handle => {
+      handle.style.display = disabled ? 'none' : ''
+      handle.setAttribute('aria-disabled', String(disabled))
+    })
+  }
 
-    // Keep the desired dimensions, but limit them to the parent dimensions
-    const desiredWidth = currentState.width
-    const desiredHeight = currentState.height
+  /**
+   * Check if the browser shows the container fullscreen
+   */
+  isFullscreen(): boolean
+  {
+    return this.fullscreen
+  }
 
-    const newWidth = Math.min(desiredWidth, parentRect.width)
-    const newHeight = Math.min(desiredHeight, parentRect.height)
+  /**
+   * Show the container fullscreen with the Fullscreen API, gestures are suspended until it exits
+   * Resolves false where fullscreen is unavailable or refused, e.g. without a user gesture or in jsdom
+   */
+  enterFullscreen(): Promise<boolean>
+  {
+    const doc = this.container.ownerDocument
 
-    // Save the desired coordinates, but limit them to the parent dimensions
-    const desiredX = currentState.x
-    const desiredY = currentState.y
+    if (this.fullscreen) return Promise.resolve(true)
+    if (!doc.fullscreenEnabled || typeof this.container.requestFullscreen !== 'function') return Promise.resolve(false)
 
-    const newX = Math.min(desiredX, parentRect.width - newWidth)
-    const newY = Math.min(desiredY, parentRect.height - newHeight)
+    this.stopInertia()
+    this.stopAnimation()
+    this.cancelGesture(0)
+    this.fullscreenState = this.getState()
 
-    // Use reactive state update
-    this.setState({
-      x: newX,
-      y: newY,
-      width: newWidth,
-      height: newHeight
-    })
+    return this.container.requestFullscreen()
+      .then(() => {
+        this.onFullscreenChange()
+        return true
+      })
+      .catch(() => {
+        this.fullscreenState = null
+        return false
+      })
+  }
+
+  /**
+   * Leave fullscreen, the container returns to the geometry it had before
+   */
+  exitFullscreen(): Promise<boolean>
+  {
+    const doc = this.container.ownerDocument
+    if (doc.fullscreenElement !== this.container) return Promise.resolve(false)
+
+    return doc.exitFullscreen()
+      .then(() => {
+        this.onFullscreenChange()
+        return true
+      })
+      .catch(() => false)
+  }
+
+  /**
+   * Follow the document fullscreen element, whoever changed it, and emit fullscreenChange
+   */
+  private onFullscreenChange(): void
+  {
+    const active = this.container.ownerDocument.fullscreenElement === this.container
+    if (active === this.fullscreen) return
+
+    this.fullscreen = active
+    this.container.dataset.fullscreen = String(active)
+    this.syncResizeHandles()
+
+    if (active) {
+      this.fullscreenState ??= this.getState()
+    } else if (this.fullscreenState) {
+      this.setState(this.fullscreenState)
+      this.fullscreenState = null
+    }
 
-    this.eventEmitter.emit('parentRecalculated', {
-      type: 'parentRecalculated',
+    this.eventEmitter.emit('fullscreenChange', {
+      type: 'fullscreen',
       state: this.getState(),
       mode: this.reactiveState.mode,
-      element: this.container
+      element: this.container,
+      fullscreen: active
     })
   }
 
@@ -1229,7 +3357,7 @@ export class ContainerManager implements ContainerManagerInterface
 
     try {
       plugin.install(this, options)
-      this.installedPlugins.add(plugin)
+      this.installedPlugins.set(plugin, options)
     } catch (error) {
       console.error('[ContainerManager] Failed to install plugin:', error)
     }
@@ -1250,7 +3378,111 @@ export class ContainerManager implements ContainerManagerInterface
    */
   getInstalledPlugins(): Plugin[]
   {
-    return Array.from(this.installedPlugins)
+    return Array.from(this.installedPlugins.keys())
+  }
+
+  /**
+   * Get a copy of the configuration, constrainTo is kept by reference
+   */
+  getConfig(): ContainerConfig
+  {
+    const { constrainTo, ...config } = this.config
+    return { ...structuredClone(config), constrainTo }
+  }
+
+  /**
+   * Snapshot configuration, state, window state and installed plugins as plain data
+   * The state is the normal, expanded geometry; fullscreen and an element or callback in constrainTo are left out
+   */
+  toJSON(): ContainerDescriptor
+  {
+    const config = this.getConfig()
+    const { constrainTo } = config
+    const state = this.getRestoreState() ?? this.getState()
+    const maximized = this.windowState === 'maximized' || (this.windowState === 'minimized' && this.minimizedFrom === 'maximized')
+
+    return {
+      version: ContainerManager.DESCRIPTOR_VERSION,
+      config: {
+        ...config,
+        mode: this.getMode(),
+        draggingDirection: this.getDirection(),
+        constrainTo: typeof constrainTo === 'function' || constrainTo instanceof HTMLElement ? null : constrainTo
+      },
+      state: { ...state, height: this.getExpandedHeight() ?? state.height },
+      relative: this.getRelativeState(),
+      windowState: this.windowState,
+      maximized: maximized ? this.maximizeTarget : null,
+      collapsed: this.collapsed,
+      mode: this.getMode(),
+      direction: this.getDirection(),
+      plugins: Array.from(this.installedPlugins, ([plugin, options]) => ({
+        name: plugin.pluginId.description ?? '',
+        options
+      }))
+    }
+  }
+
+  /**
+   * Rebuild a manager from a toJSON() descriptor, plugins are created by the registry factories
+   * @param container - HTML element to manage
+   * @param descriptor - Descriptor from toJSON()
+   * @param registry - Plugin factories by name, plugins missing from it are skipped
+   * @param uid - _uid of the new manager, a fresh one by default so the clone and the original stack apart
+   */
+  static fromJSON(
+    container: HTMLElement,
+    descriptor: ContainerDescriptor,
+    registry: PluginRegistry = {},
+    uid: string = `${descriptor.config._uid || 'container'}-${Math.random().toString(36).slice(2, 10)}`
+  ): ContainerManager {
+    if (descriptor.version !== ContainerManager.DESCRIPTOR_VERSION) {
+      throw new Error(`Unsupported container descriptor version: ${descriptor.version}`)
+    }
+
+    const manager = new ContainerManager(container, {
+      ...descriptor.config,
+      _uid: uid,
+      mode: descriptor.mode,
+      draggingDirection: descriptor.direction
+    })
+
+    const restore = () => {
+      manager.setState(descriptor.state)
+
+      // Fractions rescale to the new parent, pixels only fit the old one
+      if (descriptor.relative) {
+        manager.setRelativeState(descriptor.relative)
+      }
+      if (descriptor.collapsed) {
+        manager.collapse({ duration: 0 })
+      }
+      if (descriptor.maximized) {
+        manager.maximize(descriptor.maximized, { duration: 0 })
+      }
+      if (descriptor.windowState === 'minimized') {
+        manager.minimize()
+      }
+    }
+
+    // The restored window state is where the clone starts, not a step to undo
+    if (manager.history) {
+      manager.history.ignore(restore)
+    } else {
+      restore()
+    }
+
+    descriptor.plugins.forEach(({ name, options }) => {
+      const factory = registry[name]
+
+      if (factory) {
+        manager.use(factory(options), options)
+      } else {
+        console.warn(`[ContainerManager] No plugin registered as "${name}", skipped`)
+      }
+    })
+
+    return manager
   }
 
   /**
@@ -1258,6 +3490,15 @@ export class ContainerManager implements ContainerManagerInterface
    */
   destroy(): void
   {
+    this.stopInertia()
+    this.stopAnimation()
+    this.stopAutoScroll()
+
+    // A drag out of a maximized window never ends, its group must not stay open
+    this.maximizedDrag?.history?.cancelGroup()
+    this.maximizedDrag = null
+    this.history?.clear(this)
+
     // Clean up reactive effects
     this.reactiveEffects.forEach(effect => effect())
     this.reactiveEffects = []
@@ -1270,17 +3511,24 @@ export class ContainerManager implements ContainerManagerInterface
     this.eventEmitter.destroy()
     this.pluginEventEmitter.destroy()
     this.domUpdateEffect()
+    this.frameScheduler.cancel()
+
+    // Remove pointer input and event listeners
+    this.dragInputs.forEach(input => input.destroy())
+    this.dragInputs = []
+    this.dragHandles.forEach(handle => handle.removeEventListener('contextmenu', this.onContextMenu))
+    this.container.removeEventListener('keydown', this.onKeyDown)
+    this.container.ownerDocument.removeEventListener('scroll', this.onScroll, { capture: true })
+    this.container.ownerDocument.removeEventListener('fullscreenchange', this.onFullscreenChange)
+
+    if (this.fullscreen) {
+      this.container.ownerDocument.exitFullscreen().catch(() => {})
+    }
 
-    // Remove event listeners
-    this.dragHandle.removeEventListener('mousedown', this.onDragStart)
-    this.dragHandle.removeEventListener('touchstart', this.onDragStart)
-    this.dragHandle.removeEventListener('contextmenu', this.onContextMenu)
-
-    // Remove resize handle events
-    this.resizeHandles.forEach((handle, direction) => {
-      handle.removeEventListener('mousedown', (e) => this.onResizeStart(e, direction))
-      handle.removeEventListener('touchstart', (e) => this.onResizeStart(e, direction))
-    })
+    // Remove resize and rotate handle input
+    this.unbindResizeEvents()
+    this.rotateInput?.destroy()
+    this.rotateInput = null
 
     // Clean up ResizeObservers
     if (this.resizeObserver) {
@@ -1293,6 +3541,12 @@ export class ContainerManager implements ContainerManagerInterface
       this.parentResizeObserver = null
     }
 
+    this.constraintResizeObserver?.disconnect()
+    this.constraintResizeObserver = null
+    this.relativeResizeObserver?.disconnect()
+    this.relativeResizeObserver = null
+    this.unobserveMaximized()
+
     // Clear installed plugins
     this.installedPlugins.clear()
 
@@ -0,0 +1,80 @@
+// src/core/FrameScheduler.ts
+
+/**
+ * Coalesces high-frequency work into a single run per animation frame
+ * The latest scheduled task wins, earlier ones in the same frame are dropped
+ */
+export class FrameScheduler
+{
+  private frameId: number | null = null
+  private task: (() => void) | null = null
+
+  constructor()
+  {
+    this.run = this.run.bind(this)
+  }
+
+  /**
+   * Schedule a task for the next animation frame
+   */
+  schedule(task: () => void): void
+  {
+    this.task = task
+
+    if (this.frameId !== null) return
+
+    // Without requestAnimationFrame (server, some test environments) run synchronously
+    if (typeof requestAnimationFrame === 'undefined') {
+      this.run()
+      return
+    }
+
+    this.frameId = requestAnimationFrame(this.run)
+  }
+
+  /**
+   * Check if a task is waiting for the next frame
+   */
+  isPending(): boolean
+  {
+    return this.task !== null
+  }
+
+  /**
+   * Run the pending task right away instead of waiting for the frame
+   */
+  flush(): void
+  {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+    }
+
+    this.run()
+  }
+
+  /**
+   * Drop the pending task
+   */
+  cancel(): void
+  {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+      this.frameId = null
+    }
+
+    this.task = null
+  }
+
+  /**
+   * Run and clear the pending task
+   */
+  private run(): void
+  {
+    const task = this.task
+
+    this.frameId = null
+    this.task = null
+
+    task?.()
+  }
+}
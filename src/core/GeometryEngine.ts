@@ -0,0 +1,483 @@
+// src/core/GeometryEngine.ts
+
+import { clamp } from '../utils/helpers'
+import type {
+  Boundaries,
+  ConstraintRect,
+  ContainerState,
+  DirectionMode,
+  MovementMode,
+  RelativeState,
+  ResizeDirection
+} from './types'
+
+/**
+ * Rules every state is held to
+ */
+export interface GeometryRules {
+  boundaries: Boundaries
+  /**
+   * Grid size used by the 'snap' mode (default 10)
+   */
+  snapStep?: number
+}
+
+/**
+ * One step of a resize gesture
+ */
+export interface ResizeStep {
+  direction: ResizeDirection
+  mode: MovementMode
+  /**
+   * Locked width / height ratio, null resizes freely
+   */
+  ratio: number | null
+  /**
+   * Grow and shrink around the center
+   */
+  centered: boolean
+  /**
+   * Box the anchored container may not grow out of
+   */
+  box: ConstraintRect | null
+}
+
+/**
+ * Regions a state is confined to
+ */
+export interface ConstraintInput {
+  /**
+   * Locked width / height ratio kept while the regions shrink the state
+   */
+  ratio?: number | null
+  /**
+   * Height floor replacing minHeight, e.g. for a collapsed container
+   */
+  minHeight?: number | null
+  /**
+   * Viewport the bounding box is kept in, null when it does not constrain
+   */
+  viewport?: ConstraintRect | null
+  /**
+   * Parent and other regions, position and size are both kept inside
+   */
+  regions?: ConstraintRect[]
+  /**
+   * Handle of the resize in progress, the opposite edges stay put when the ratio is fitted
+   */
+  direction?: ResizeDirection | null
+  /**
+   * The resize grows around the center, which stays put instead
+   */
+  centered?: boolean
+}
+
+/**
+ * DOM-free geometry of draggable, resizable and rotatable boxes
+ * Takes states, constraint rectangles and gesture deltas and returns new states,
+ * so the same layout rules drive DOM containers, canvas or SVG renderers and run in Node
+ */
+export class GeometryEngine
+{
+  static readonly MINWIDTH: number = 200
+  static readonly MINHEIGHT: number = 45
+
+  private rules: GeometryRules
+
+  constructor(rules: GeometryRules)
+  {
+    this.rules = { ...rules }
+  }
+
+  /**
+   * Get the rules in use
+   */
+  getRules(): GeometryRules
+  {
+    return { ...this.rules }
+  }
+
+  /**
+   * Change some of the rules
+   */
+  setRules(rules: Partial<GeometryRules>): void
+  {
+    this.rules = { ...this.rules, ...rules }
+  }
+
+  /**
+   * Move a state by a gesture delta, pinned stays put and snap moves by whole grid cells
+   */
+  move(start: ContainerState, deltaX: number, deltaY: number, mode: MovementMode): ContainerState
+  {
+    if (mode === 'smooth') {
+      return { ...start, x: start.x + deltaX, y: start.y + deltaY }
+    }
+
+    if (mode === 'snap') {
+      return { ...start, x: start.x + this.snap(deltaX), y: start.y + this.snap(deltaY) }
+    }
+
+    return { ...start }
+  }
+
+  /**
+   * Lock a pointer position to the dragging direction, the locked axis stays at the origin
+   */
+  lockDirection(point: { x: number; y: number }, origin: { x: number; y: number }, direction: DirectionMode): { x: number; y: number }
+  {
+    return {
+      x: direction === 'vertical' ? origin.x : point.x,
+      y: direction === 'horizontal' ? origin.y : point.y
+    }
+  }
+
+  /**
+   * Resize a state by a gesture delta from a handle direction
+   * The edges opposite to the dragged handle (or the center in centered mode) stay anchored,
+   * even when size hits a boundary or the box
+   */
+  resize(start: ContainerState, deltaX: number, deltaY: number, step: ResizeStep): ContainerState
+  {
+    const { direction, ratio, centered } = step
+    const factor = centered ? 2 : 1
+
+    const north = direction.includes('n')
+    const south = direction.includes('s')
+    const east = direction.includes('e')
+    const west = direction.includes('w')
+
+    if (step.mode === 'snap') {
+      deltaX = this.snap(deltaX)
+      deltaY = this.snap(deltaY)
+    }
+
+    let width = start.width + factor * (east ? deltaX : west ? -deltaX : 0)
+    let height = start.height + factor * (south ? deltaY : north ? -deltaY : 0)
+
+    if (ratio) {
+      // The axis with the larger relative change drives the other one
+      const widthDrives = (east || west) && (
+        !(north || south) ||
+        Math.abs(width / start.width - 1) >= Math.abs(height / start.height - 1)
+      )
+
+      if (widthDrives) {
+        height = width / ratio
+      } else {
+        width = height * ratio
+      }
+    }
+
+    const size = this.clampSize(width, height, ratio, this.getResizeLimit(start, step.box, north, west, centered))
+
+    if (centered) {
+      return {
+        ...start,
+        x: start.x + (start.width - size.width) / 2,
+        y: start.y + (start.height - size.height) / 2,
+        width: size.width,
+        height: size.height
+      }
+    }
+
+    return this.anchorRotated(start, {
+      ...start,
+      x: west ? start.x + start.width - size.width : start.x,
+      y: north ? start.y + start.height - size.height : start.y,
+      width: size.width,
+      height: size.height
+    })
+  }
+
+  /**
+   * Turn an angle, snapped to the step when it is above 0, normalized to 0..360
+   */
+  rotate(angle: number, turn: number, step: number = 0): number
+  {
+    let next = angle + turn
+
+    if (step > 0) {
+      next = Math.round(next / step) * step
+    }
+
+    return this.normalizeAngle(next)
+  }
+
+  /**
+   * Apply boundaries, the viewport and the regions to a state
+   */
+  constrain(state: ContainerState, input: ConstraintInput = {}): ContainerState
+  {
+    const ratio = input.ratio ?? null
+    let constrained: ContainerState = { ...state }
+
+    // Boundaries are ratio-aware while a resize locks the aspect ratio
+    const size = this.clampSize(state.width, state.height, ratio, undefined, input.minHeight)
+    constrained.width = size.width
+    constrained.height = size.height
+
+    // A rotated container is kept in the viewport by its bounding box
+    if (input.viewport) {
+      const viewport = input.viewport
+      const bounds = this.getBoundingBox(constrained)
+      constrained.x += clamp(bounds.x, viewport.x, viewport.x + viewport.width - bounds.width) - bounds.x
+      constrained.y += clamp(bounds.y, viewport.y, viewport.y + viewport.height - bounds.height) - bounds.y
+    }
+
+    const regions = input.regions ?? []
+    if (regions.length) {
+      regions.forEach(box => {
+        constrained = this.constrainToBox(constrained, box)
+      })
+
+      if (ratio) {
+        constrained = this.fitAspectRatio(constrained, ratio, input.direction, input.centered, input.minHeight)
+      }
+    }
+
+    return constrained
+  }
+
+  /**
+   * Clamp size to boundaries and an optional extra limit, keeping the aspect ratio when one is locked
+   */
+  clampSize(
+    width: number,
+    height: number,
+    ratio: number | null = null,
+    limit: { width: number; height: number } = { width: Infinity, height: Infinity },
+    minHeightOverride?: number | null
+  ): { width: number; height: number } {
+    const { boundaries } = this.rules
+    const minWidth = boundaries.minWidth || GeometryEngine.MINWIDTH
+    const minHeight = minHeightOverride ?? (boundaries.minHeight || GeometryEngine.MINHEIGHT)
+    const maxWidth = Math.min(boundaries.maxWidth || Infinity, limit.width)
+    const maxHeight = Math.min(boundaries.maxHeight || Infinity, limit.height)
+
+    if (!ratio) {
+      return {
+        width: clamp(width, minWidth, maxWidth),
+        height: clamp(height, minHeight, maxHeight)
+      }
+    }
+
+    // Width range satisfying both axes at the locked ratio, minimums win when they conflict
+    const low = Math.max(minWidth, minHeight * ratio)
+    const high = Math.max(low, Math.min(maxWidth, maxHeight * ratio))
+    const lockedWidth = clamp(width, low, high)
+
+    return {
+      width: lockedWidth,
+      height: lockedWidth / ratio
+    }
+  }
+
+  /**
+   * Constrain a state to a rectangle, both position and size
+   */
+  constrainToBox(state: ContainerState, box: ConstraintRect): ContainerState
+  {
+    // A rotated container is moved back inside by its bounding box
+    if (state.angle) {
+      const bounds = this.getBoundingBox(state)
+      const maxX = box.x + Math.max(0, box.width - bounds.width)
+      const maxY = box.y + Math.max(0, box.height - bounds.height)
+
+      return {
+        ...state,
+        x: state.x + clamp(bounds.x, box.x, maxX) - bounds.x,
+        y: state.y + clamp(bounds.y, box.y, maxY) - bounds.y
+      }
+    }
+
+    // Calculating the maximum allowable coordinates
+    const maxX = box.x + Math.max(0, box.width - state.width)
+    const maxY = box.y + Math.max(0, box.height - state.height)
+    const x = clamp(state.x, box.x, maxX)
+    const y = clamp(state.y, box.y, maxY)
+
+    // Size is measured from the moved position, so it only shrinks when it doesn't fit at all
+    return {
+      ...state,
+      x,
+      y,
+      width: clamp(state.width, 0, box.x + box.width - x),
+      height: clamp(state.height, 0, box.y + box.height - y)
+    }
+  }
+
+  /**
+   * Get the overlap of rectangles, null for none
+   */
+  intersect(boxes: ConstraintRect[]): ConstraintRect | null
+  {
+    if (!boxes.length) return null
+
+    return boxes.reduce((a, b) => {
+      const x = Math.max(a.x, b.x)
+      const y = Math.max(a.y, b.y)
+
+      return {
+        x,
+        y,
+        width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+        height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y)
+      }
+    })
+  }
+
+  /**
+   * Get the axis-aligned box a rotated state covers
+   */
+  getBoundingBox(state: ContainerState): ConstraintRect
+  {
+    const angle = state.angle ?? 0
+    if (!angle) return { x: state.x, y: state.y, width: state.width, height: state.height }
+
+    const radians = angle * Math.PI / 180
+    const cos = Math.abs(Math.cos(radians))
+    const sin = Math.abs(Math.sin(radians))
+
+    const width = state.width * cos + state.height * sin
+    const height = state.width * sin + state.height * cos
+
+    return {
+      x: state.x + (state.width - width) / 2,
+      y: state.y + (state.height - height) / 2,
+      width,
+      height
+    }
+  }
+
+  /**
+   * Rotation happens around the center, so a resize that moves the center would drag the anchored
+   * edges along. Move the center along the rotated axes instead, keeping the anchor in place
+   */
+  anchorRotated(start: ContainerState, state: ContainerState): ContainerState
+  {
+    const angle = start.angle ?? 0
+    if (!angle) return state
+
+    const radians = angle * Math.PI / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+
+    // Center shift in the local, unrotated frame
+    const dx = state.x + state.width / 2 - (start.x + start.width / 2)
+    const dy = state.y + state.height / 2 - (start.y + start.height / 2)
+
+    const centerX = start.x + start.width / 2 + dx * cos - dy * sin
+    const centerY = start.y + start.height / 2 + dx * sin + dy * cos
+
+    return {
+      ...state,
+      x: centerX - state.width / 2,
+      y: centerY - state.height / 2
+    }
+  }
+
+  /**
+   * Shrink the larger side so the state matches the locked aspect ratio, within the boundaries
+   * The edges opposite to the resize handle (or the center in centered mode) stay put
+   */
+  fitAspectRatio(
+    state: ContainerState,
+    ratio: number,
+    direction: ResizeDirection | null = null,
+    centered: boolean = false,
+    minHeightOverride?: number | null
+  ): ContainerState {
+    const size = state.width / state.height > ratio
+      ? this.clampSize(state.height * ratio, state.height, ratio, undefined, minHeightOverride)
+      : this.clampSize(state.width, state.width / ratio, ratio, undefined, minHeightOverride)
+
+    const dx = state.width - size.width
+    const dy = state.height - size.height
+
+    return this.anchorRotated(state, {
+      ...state,
+      x: state.x + (centered ? dx / 2 : direction?.includes('w') ? dx : 0),
+      y: state.y + (centered ? dy / 2 : direction?.includes('n') ? dy : 0),
+      width: size.width,
+      height: size.height
+    })
+  }
+
+  /**
+   * Convert a state to fractions of a box, null for a box without size
+   */
+  toRelative(state: ContainerState, box: ConstraintRect): RelativeState | null
+  {
+    if (box.width <= 0 || box.height <= 0) return null
+
+    return {
+      x: (state.x - box.x) / box.width,
+      y: (state.y - box.y) / box.height,
+      width: state.width / box.width,
+      height: state.height / box.height
+    }
+  }
+
+  /**
+   * Convert fractions of a box to a state
+   */
+  fromRelative(state: RelativeState, box: ConstraintRect): ContainerState
+  {
+    return {
+      x: box.x + state.x * box.width,
+      y: box.y + state.y * box.height,
+      width: state.width * box.width,
+      height: state.height * box.height
+    }
+  }
+
+  /**
+   * Round a delta to the snap grid
+   */
+  snap(value: number): number
+  {
+    const step = this.rules.snapStep ?? 10
+    return Math.round(value / step) * step
+  }
+
+  /**
+   * Normalize an angle to 0..360
+   */
+  normalizeAngle(angle: number): number
+  {
+    return ((angle % 360) + 360) % 360
+  }
+
+  /**
+   * Get the largest size the anchored state can grow to inside the box
+   */
+  private getResizeLimit(
+    start: ContainerState,
+    box: ConstraintRect | null,
+    north: boolean,
+    west: boolean,
+    centered: boolean
+  ): { width: number; height: number } {
+    // A rotated container is kept inside by moving its bounding box, not by anchored limits
+    if (!box || start.angle) return { width: Infinity, height: Infinity }
+
+    const right = box.x + box.width
+    const bottom = box.y + box.height
+
+    if (centered) {
+      const centerX = start.x + start.width / 2
+      const centerY = start.y + start.height / 2
+
+      return {
+        width: 2 * Math.min(centerX - box.x, right - centerX),
+        height: 2 * Math.min(centerY - box.y, bottom - centerY)
+      }
+    }
+
+    return {
+      width: west ? start.x + start.width - box.x : right - start.x,
+      height: north ? start.y + start.height - box.y : bottom - start.y
+    }
+  }
+}
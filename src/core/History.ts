@@ -0,0 +1,259 @@
+// src/core/History.ts
+
+import type { ContainerManagerInterface } from './types'
+
+/**
+ * One committed operation, undo and redo restore the state on either side of it
+ */
+export interface HistoryEntry {
+  /**
+   * Operation name, e.g. 'drag', 'resize', 'modeChange', 'dock'
+   */
+  type: string
+  target: ContainerManagerInterface
+  timestamp: number
+  undo(): void
+  redo(): void
+}
+
+/**
+ * Entries undone and redone together, e.g. several containers moved at once
+ */
+export interface HistoryStep {
+  entries: HistoryEntry[]
+  timestamp: number
+}
+
+/**
+ * History configuration
+ */
+export interface HistoryOptions {
+  /**
+   * Steps kept, the oldest are dropped first (default 50)
+   */
+  depth?: number
+}
+
+/**
+ * Undo / redo stack of container operations
+ * Every manager records into its own history, managers given a shared one
+ * form a workspace history with the entries of all of them in chronological order
+ */
+export class History
+{
+  private readonly depth: number
+  private undoStack: HistoryStep[] = []
+  private redoStack: HistoryStep[] = []
+  private openGroup: HistoryStep | null = null
+  // Entry count of the open group when each nested group began
+  private groupStarts: number[] = []
+  private isApplying: boolean = false
+
+  constructor(options: HistoryOptions = {})
+  {
+    this.depth = Math.max(1, options.depth ?? 50)
+  }
+
+  /**
+   * Record a committed operation, a new operation drops the redo steps
+   * Undo and redo go through the same setters that record, so nothing is recorded while they run
+   */
+  record(entry: Omit<HistoryEntry, 'timestamp'>): void
+  {
+    if (this.isApplying) return
+
+    const recorded: HistoryEntry = { ...entry, timestamp: Date.now() }
+    this.redoStack = []
+
+    if (this.openGroup) {
+      this.openGroup.entries.push(recorded)
+      return
+    }
+
+    this.push({ entries: [recorded], timestamp: recorded.timestamp })
+  }
+
+  /**
+   * Start collecting entries into one step, groups may nest
+   */
+  beginGroup(): void
+  {
+    if (!this.openGroup) {
+      this.openGroup = { entries: [], timestamp: Date.now() }
+    }
+
+    this.groupStarts.push(this.openGroup.entries.length)
+  }
+
+  /**
+   * Close the innermost group, the outermost one is pushed as one step
+   */
+  endGroup(): void
+  {
+    if (!this.groupStarts.length) return
+
+    this.groupStarts.pop()
+    this.closeGroup()
+  }
+
+  /**
+   * Close the innermost group dropping its entries, for an operation that was cancelled
+   * The changes themselves are not reverted
+   */
+  cancelGroup(): void
+  {
+    if (!this.openGroup || !this.groupStarts.length) return
+
+    this.openGroup.entries.splice(this.groupStarts.pop()!)
+    this.closeGroup()
+  }
+
+  /**
+   * Run operations whose entries form a single step
+   */
+  group<T>(operations: () => T): T
+  {
+    this.beginGroup()
+
+    try {
+      return operations()
+    } finally {
+      this.endGroup()
+    }
+  }
+
+  /**
+   * Undo the latest step, or the latest one touching the target
+   */
+  undo(target?: ContainerManagerInterface): boolean
+  {
+    const step = this.take(this.undoStack, target)
+    if (!step) return false
+
+    // Later entries may build on earlier ones, so they are reverted first
+    this.ignore(() => [...step.entries].reverse().forEach(entry => entry.undo()))
+    this.redoStack.push(step)
+
+    return true
+  }
+
+  /**
+   * Redo the latest undone step, or the latest one touching the target
+   */
+  redo(target?: ContainerManagerInterface): boolean
+  {
+    const step = this.take(this.redoStack, target)
+    if (!step) return false
+
+    this.ignore(() => step.entries.forEach(entry => entry.redo()))
+    this.push(step)
+
+    return true
+  }
+
+  /**
+   * Check if there is a step to undo
+   */
+  canUndo(target?: ContainerManagerInterface): boolean
+  {
+    return this.findStep(this.undoStack, target) !== -1
+  }
+
+  /**
+   * Check if there is a step to redo
+   */
+  canRedo(target?: ContainerManagerInterface): boolean
+  {
+    return this.findStep(this.redoStack, target) !== -1
+  }
+
+  /**
+   * Forget all steps, or only the entries of a target, e.g. a destroyed manager
+   */
+  clear(target?: ContainerManagerInterface): void
+  {
+    if (!target) {
+      this.undoStack = []
+      this.redoStack = []
+      return
+    }
+
+    const strip = (stack: HistoryStep[]) => stack
+      .map(step => ({ ...step, entries: step.entries.filter(entry => entry.target !== target) }))
+      .filter(step => step.entries.length > 0)
+
+    this.undoStack = strip(this.undoStack)
+    this.redoStack = strip(this.redoStack)
+  }
+
+  /**
+   * Get the steps that can be undone, oldest first
+   */
+  getSteps(): HistoryStep[]
+  {
+    return [...this.undoStack]
+  }
+
+  /**
+   * Run changes that must not be recorded, like undo and redo themselves or setup done by a plugin
+   */
+  ignore<T>(run: () => T): T
+  {
+    const applying = this.isApplying
+    this.isApplying = true
+
+    try {
+      return run()
+    } finally {
+      this.isApplying = applying
+    }
+  }
+
+  /**
+   * Find the latest step, or the latest one with an entry of the target
+   */
+  private findStep(stack: HistoryStep[], target?: ContainerManagerInterface): number
+  {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (!target || stack[i].entries.some(entry => entry.target === target)) return i
+    }
+
+    return -1
+  }
+
+  /**
+   * Remove and return a step from a stack
+   */
+  private take(stack: HistoryStep[], target?: ContainerManagerInterface): HistoryStep | null
+  {
+    const index = this.findStep(stack, target)
+    return index === -1 ? null : stack.splice(index, 1)[0]
+  }
+
+  /**
+   * Push the open group once no nested group is left in it
+   */
+  private closeGroup(): void
+  {
+    if (this.groupStarts.length > 0) return
+
+    const step = this.openGroup
+    this.openGroup = null
+
+    if (step?.entries.length) {
+      this.push(step)
+    }
+  }
+
+  /**
+   * Push a step, dropping the oldest past the depth
+   */
+  private push(step: HistoryStep): void
+  {
+    this.undoStack.push(step)
+
+    if (this.undoStack.length > this.depth) {
+      this.undoStack.shift()
+    }
+  }
+}
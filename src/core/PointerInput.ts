@@ -0,0 +1,388 @@
+// src/core/PointerInput.ts
+
+import type { DragActivationConfig } from './types'
+
+/**
+ * Gesture callbacks driven by the pointer input layer
+ */
+export interface PointerGestureHandlers {
+  /**
+   * Called on pointerdown, returning false declines the gesture
+   */
+  start(e: PointerEvent): boolean | void
+  move(e: PointerEvent): void
+  end(e: PointerEvent): void
+  /**
+   * Called when the gesture is aborted instead of finished
+   */
+  cancel?(): void
+}
+
+/**
+ * Pointer input configuration
+ */
+export interface PointerInputOptions {
+  /**
+   * touch-action of the element (default 'none'), null keeps its own
+   */
+  touchAction?: string | null
+  /**
+   * Let Escape and a second pointer abort the gesture (default true)
+   */
+  cancelable?: boolean
+  /**
+   * Hold the gesture back until the pointer travels or is held long enough
+   */
+  activation?: DragActivationConfig
+  /**
+   * Return false to ignore a press, e.g. on a button inside the handle
+   */
+  filter?(e: PointerEvent): boolean
+}
+
+/**
+ * Pointer pressed but not yet confirmed as a gesture
+ */
+interface PendingGesture {
+  down: PointerEvent
+  last: PointerEvent
+  delay: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Unified Pointer Events input layer shared by the core and plugins
+ * Captures the pointer on gesture start, so move and up events keep flowing
+ * when the pointer leaves the window or crosses an iframe
+ */
+export class PointerInput
+{
+  private readonly element: HTMLElement
+  private readonly cancelable: boolean
+  private readonly activation: DragActivationConfig
+  private readonly filter: ((e: PointerEvent) => boolean) | null
+  private handlers: PointerGestureHandlers
+  private pointerId: number | null = null
+  private target: EventTarget | null = null
+  private pending: PendingGesture | null = null
+
+  constructor(element: HTMLElement, handlers: PointerGestureHandlers, options: PointerInputOptions = {})
+  {
+    this.element = element
+    this.handlers = handlers
+    this.cancelable = options.cancelable ?? true
+    this.activation = options.activation ?? {}
+    this.filter = options.filter ?? null
+
+    this.onPointerDown = this.onPointerDown.bind(this)
+    this.onPointerMove = this.onPointerMove.bind(this)
+    this.onPointerUp = this.onPointerUp.bind(this)
+    this.onSecondPointer = this.onSecondPointer.bind(this)
+    this.onKeyDown = this.onKeyDown.bind(this)
+    this.onPendingMove = this.onPendingMove.bind(this)
+    this.onPendingEnd = this.onPendingEnd.bind(this)
+    this.onTouchMove = this.onTouchMove.bind(this)
+
+    // Browser panning and zooming must not steal the gesture on touch and pen
+    if (options.touchAction !== null) {
+      this.element.style.touchAction = options.touchAction ?? 'none'
+    }
+    this.element.addEventListener('pointerdown', this.onPointerDown)
+
+    // Where touch-action still allows panning, a confirmed gesture stops the scroll
+    this.element.addEventListener('touchmove', this.onTouchMove, { passive: false })
+  }
+
+  /**
+   * Get all pointer samples coalesced into a pointermove, in order, for velocity tracking
+   * Falls back to the event itself where getCoalescedEvents is unsupported
+   */
+  static getCoalescedEvents(e: PointerEvent): PointerEvent[]
+  {
+    const events = typeof e.getCoalescedEvents === 'function' ? e.getCoalescedEvents() : []
+    return events.length ? events : [e]
+  }
+
+  /**
+   * Replace gesture handlers, returns the previous ones so they can be restored
+   */
+  setHandlers(handlers: PointerGestureHandlers): PointerGestureHandlers
+  {
+    const previous = this.handlers
+    this.handlers = handlers
+
+    return previous
+  }
+
+  /**
+   * Get the element the input layer is attached to
+   */
+  getElement(): HTMLElement
+  {
+    return this.element
+  }
+
+  /**
+   * Check if a gesture is in progress
+   */
+  isActive(): boolean
+  {
+    return this.pointerId !== null
+  }
+
+  /**
+   * Check if a pressed pointer is waiting to be confirmed as a gesture
+   */
+  isPending(): boolean
+  {
+    return this.pending !== null
+  }
+
+  /**
+   * Handle pointer down - start the gesture right away or wait for activation
+   */
+  private onPointerDown(e: PointerEvent): void
+  {
+    if (this.pointerId !== null || this.pending || !e.isPrimary) return
+
+    // Only the main button starts a gesture for mouse, touch and pen contact always does
+    if (e.pointerType === 'mouse' && e.button !== 0) return
+    if (this.filter?.(e) === false) return
+
+    const delay = e.pointerType === 'touch'
+      ? this.activation.touchDelay ?? this.activation.delay ?? 0
+      : this.activation.delay ?? 0
+
+    if (delay <= 0 && (this.activation.distance ?? 0) <= 0) {
+      this.begin(e, e)
+      return
+    }
+
+    // Nothing is prevented or captured yet, so clicks and page scroll keep working
+    this.pending = {
+      down: e,
+      last: e,
+      delay,
+      timer: delay > 0 ? setTimeout(() => this.activate(), delay) : null
+    }
+
+    const doc = this.element.ownerDocument
+    doc.addEventListener('pointermove', this.onPendingMove)
+    doc.addEventListener('pointerup', this.onPendingEnd)
+    doc.addEventListener('pointercancel', this.onPendingEnd)
+    doc.addEventListener('pointerdown', this.onSecondPointer, true)
+    doc.addEventListener('keydown', this.onKeyDown, true)
+  }
+
+  /**
+   * Track the pressed pointer until it travels the activation distance
+   * While a delay runs, drifting past the tolerance means the user scrolls or clicks instead
+   */
+  private onPendingMove(e: PointerEvent): void
+  {
+    const pending = this.pending
+    if (!pending || e.pointerId !== pending.down.pointerId) return
+
+    pending.last = e
+
+    const distance = Math.hypot(e.clientX - pending.down.clientX, e.clientY - pending.down.clientY)
+
+    if (pending.delay > 0) {
+      if (distance > (this.activation.tolerance ?? 5)) this.clearPending()
+    } else if (distance >= (this.activation.distance ?? 0)) {
+      this.activate()
+    }
+  }
+
+  /**
+   * Pointer released or cancelled before activation - it was a click or a scroll
+   */
+  private onPendingEnd(e: PointerEvent): void
+  {
+    if (e.pointerId !== this.pending?.down.pointerId) return
+
+    this.clearPending()
+  }
+
+  /**
+   * Confirm the pending gesture
+   */
+  private activate(): void
+  {
+    const pending = this.pending
+    if (!pending) return
+
+    this.clearPending()
+    this.begin(pending.down, pending.last)
+  }
+
+  /**
+   * Drop the pending gesture and its listeners
+   */
+  private clearPending(): void
+  {
+    if (!this.pending) return
+
+    if (this.pending.timer !== null) {
+      clearTimeout(this.pending.timer)
+    }
+
+    this.pending = null
+
+    const doc = this.element.ownerDocument
+    doc.removeEventListener('pointermove', this.onPendingMove)
+    doc.removeEventListener('pointerup', this.onPendingEnd)
+    doc.removeEventListener('pointercancel', this.onPendingEnd)
+    doc.removeEventListener('pointerdown', this.onSecondPointer, true)
+    doc.removeEventListener('keydown', this.onKeyDown, true)
+  }
+
+  /**
+   * Start the gesture from the press point and capture the pointer
+   * The movement made during activation is replayed right away
+   */
+  private begin(e: PointerEvent, latest: PointerEvent): void
+  {
+    if (this.handlers.start(e) === false) return
+
+    this.pointerId = e.pointerId
+    this.target = this.capture(e.pointerId) ? this.element : this.element.ownerDocument
+
+    this.target.addEventListener('pointermove', this.onPointerMove as EventListener)
+    this.target.addEventListener('pointerup', this.onPointerUp as EventListener)
+    this.target.addEventListener('pointercancel', this.onPointerUp as EventListener)
+    this.element.addEventListener('lostpointercapture', this.onPointerUp)
+
+    if (this.cancelable) {
+      this.element.ownerDocument.addEventListener('pointerdown', this.onSecondPointer, true)
+      this.element.ownerDocument.addEventListener('keydown', this.onKeyDown, true)
+    }
+
+    if (latest !== e) {
+      this.handlers.move(latest)
+    }
+  }
+
+  /**
+   * Keep touch panning from taking over a gesture in progress
+   */
+  private onTouchMove(e: TouchEvent): void
+  {
+    if (this.pointerId !== null && e.cancelable) {
+      e.preventDefault()
+    }
+  }
+
+  /**
+   * Handle pointer move for the captured pointer
+   */
+  private onPointerMove(e: PointerEvent): void
+  {
+    if (e.pointerId !== this.pointerId) return
+
+    this.handlers.move(e)
+  }
+
+  /**
+   * Handle pointer up, cancel or lost capture - finish the gesture
+   */
+  private onPointerUp(e: PointerEvent): void
+  {
+    if (e.pointerId !== this.pointerId) return
+
+    this.release()
+    this.handlers.end(e)
+  }
+
+  /**
+   * Abort the gesture when another pointer touches down, e.g. a second finger
+   */
+  private onSecondPointer(e: PointerEvent): void
+  {
+    // A pinch before activation is not a drag either
+    if (this.pending) {
+      if (e.pointerId !== this.pending.down.pointerId) this.clearPending()
+      return
+    }
+
+    if (e.pointerId === this.pointerId) return
+
+    this.cancel()
+  }
+
+  /**
+   * Abort the gesture on Escape
+   */
+  private onKeyDown(e: KeyboardEvent): void
+  {
+    if (e.key !== 'Escape') return
+
+    // Escape before activation just forgets the press
+    if (this.pending) {
+      this.clearPending()
+      return
+    }
+
+    e.preventDefault()
+    e.stopPropagation()
+    this.cancel()
+  }
+
+  /**
+   * Abort the gesture in progress, the cancel handler runs instead of end
+   */
+  cancel(): void
+  {
+    if (this.pointerId === null) return
+
+    this.release()
+    this.handlers.cancel?.()
+  }
+
+  /**
+   * Set pointer capture where supported (jsdom and old engines lack it)
+   */
+  private capture(pointerId: number): boolean
+  {
+    try {
+      this.element.setPointerCapture?.(pointerId)
+      return this.element.hasPointerCapture?.(pointerId) ?? false
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Release pointer capture and detach gesture listeners
+   */
+  private release(): void
+  {
+    if (this.pointerId === null) return
+
+    const pointerId = this.pointerId
+    this.pointerId = null
+
+    this.target?.removeEventListener('pointermove', this.onPointerMove as EventListener)
+    this.target?.removeEventListener('pointerup', this.onPointerUp as EventListener)
+    this.target?.removeEventListener('pointercancel', this.onPointerUp as EventListener)
+    this.element.removeEventListener('lostpointercapture', this.onPointerUp)
+    this.element.ownerDocument.removeEventListener('pointerdown', this.onSecondPointer, true)
+    this.element.ownerDocument.removeEventListener('keydown', this.onKeyDown, true)
+    this.target = null
+
+    if (this.element.hasPointerCapture?.(pointerId)) {
+      this.element.releasePointerCapture(pointerId)
+    }
+  }
+
+  /**
+   * Detach the input layer from its element
+   */
+  destroy(): void
+  {
+    this.clearPending()
+    this.release()
+    this.element.removeEventListener('pointerdown', this.onPointerDown)
+    this.element.removeEventListener('touchmove', this.onTouchMove)
+  }
+}
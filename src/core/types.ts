@@ -1,17 +1,49 @@
 // src/core/types.ts
 
 import ReactiveEventSystem from "@alekstar79/reactive-event-system"
+import type { GeometryEngine } from './GeometryEngine'
+import type { History } from './History'
+import type { PointerInput } from './PointerInput'
 
 /**
  * Container movement modes
+ * 'snap' aligns drag and resize to a grid of snapStep pixels
  */
-export type MovementMode = 'smooth' | 'pinned'
+export type MovementMode = 'smooth' | 'pinned' | 'snap'
 
 /**
  * Container movement directions
  */
 export type DirectionMode = 'all' | 'horizontal' | 'vertical'
 
+/**
+ * How container geometry is written to the DOM
+ * 'offset' writes left/top, 'transform' writes translate3d
+ */
+export type PositioningMode = 'offset' | 'transform'
+
+/**
+ * Where state x/y are measured from
+ * 'offsetParent' matches left/top, 'viewport' the screen, 'document' the scrolled page
+ */
+export type CoordinateSpace = 'viewport' | 'offsetParent' | 'document'
+
+/**
+ * How geometry survives parent and viewport resizes
+ * 'relative' tracks the state as fractions of the constraint box and scales with it
+ */
+export type GeometryMode = 'absolute' | 'relative'
+
+/**
+ * Window state of a container
+ */
+export type WindowState = 'normal' | 'maximized' | 'minimized'
+
+/**
+ * What a maximized container fills
+ */
+export type MaximizeTarget = 'viewport' | 'parent'
+
 /**
  * Resize direction types
  */
@@ -42,6 +74,172 @@ export interface Boundaries {
 export interface ResizeConfig {
   enabled?: boolean
   directions?: ResizeDirection[]
+  /**
+   * Locked width / height ratio, or 'initial' to keep the ratio at resize start
+   */
+  aspectRatio?: number | 'initial'
+  /**
+   * Grow and shrink around the center, moving opposite edges symmetrically
+   */
+  centered?: boolean
+  /**
+   * Let Shift toggle the aspect ratio lock and Alt toggle centered mode during a pointer resize (default true)
+   */
+  modifierKeys?: boolean
+}
+
+/**
+ * Rotation by a dedicated handle
+ */
+export interface RotationConfig {
+  enabled?: boolean
+  /**
+   * Angle snapping in degrees, e.g. 15, 0 rotates freely (default 0)
+   */
+  step?: number
+}
+
+/**
+ * Scrolling scrollable ancestors while a drag or resize nears their edges
+ */
+export interface AutoScrollConfig {
+  enabled?: boolean
+  /**
+   * Distance in px from an edge where scrolling starts (default 40)
+   */
+  threshold?: number
+  /**
+   * Top speed in px per frame, reached at the edge itself (default 15)
+   */
+  speed?: number
+}
+
+/**
+ * Undo / redo of committed operations
+ */
+export interface HistoryConfig {
+  enabled?: boolean
+  /**
+   * Steps kept, the oldest are dropped first (default 50)
+   */
+  depth?: number
+}
+
+/**
+ * Maximize, minimize and restore
+ */
+export interface WindowStateConfig {
+  /**
+   * What maximize() fills when no target is given (default 'viewport')
+   */
+  maximizeTo?: MaximizeTarget
+  /**
+   * Duration in ms of the maximize and restore transitions, 0 jumps (default 200)
+   */
+  duration?: number
+}
+
+/**
+ * Easing curve of a programmatic transition
+ */
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+
+/**
+ * Programmatic transition options
+ */
+export interface AnimationOptions {
+  /**
+   * Duration in ms, 0 jumps (default 300), reduced motion always jumps
+   */
+  duration?: number
+  /**
+   * Named curve or a function mapping progress 0..1 to eased progress (default 'ease-out')
+   */
+  easing?: EasingName | ((progress: number) => number)
+}
+
+/**
+ * Keyboard interaction configuration
+ */
+export interface KeyboardConfig {
+  enabled?: boolean
+  step?: number
+}
+
+/**
+ * Momentum glide after a fast drag release
+ */
+export interface InertiaConfig {
+  enabled?: boolean
+  /**
+   * Velocity kept per 16ms frame, 0..1 (default 0.95)
+   */
+  friction?: number
+  /**
+   * Release speed in px/ms needed to start gliding (default 0.3)
+   */
+  minVelocity?: number
+  /**
+   * Velocity kept when hitting a viewport or parent edge, 0 stops there (default 0)
+   */
+  bounce?: number
+}
+
+/**
+ * Which elements start a drag
+ */
+export interface DragHandleConfig {
+  /**
+   * Selector of the handles inside the container, may match several (default '[data-drag-handle]')
+   */
+  selector?: string
+  /**
+   * Use the whole container as the drag handle
+   */
+  container?: boolean
+  /**
+   * Presses on elements matching these selectors never start a drag, added to the defaults
+   * (form fields, buttons, links, contenteditable and [data-no-drag])
+   */
+  ignore?: string[]
+}
+
+/**
+ * When a press on the drag handle turns into a drag
+ * Until then no default is prevented, so clicks reach title bar buttons and touch can scroll the page
+ */
+export interface DragActivationConfig {
+  /**
+   * Pixels the pointer must travel before the drag starts (default 3)
+   */
+  distance?: number
+  /**
+   * Milliseconds the pointer must be held still before the drag starts (default 0)
+   */
+  delay?: number
+  /**
+   * Long press in milliseconds for touch, overrides delay for touch pointers (default 250)
+   * Until it ends a swipe over the handle scrolls the page, 0 drags at once and blocks that scroll
+   */
+  touchDelay?: number
+  /**
+   * Pixels the pointer may drift while a delay runs, more cancels the press (default 5)
+   */
+  tolerance?: number
+}
+
+/**
+ * Aborting a drag or resize in progress
+ */
+export interface GestureCancelConfig {
+  /**
+   * Let Escape and a second pointer cancel the gesture (default true)
+   */
+  enabled?: boolean
+  /**
+   * Duration in ms of the glide back to the start geometry, 0 jumps (default 0)
+   */
+  duration?: number
 }
 
 /**
@@ -52,10 +250,38 @@ export interface ContainerConfig {
   mode: MovementMode
   boundaries: Boundaries
   draggingDirection: DirectionMode
+  positioning?: PositioningMode
+  /**
+   * Coordinate space of state x/y, for reading, writing, constraints and events (default 'offsetParent')
+   */
+  coordinateSpace?: CoordinateSpace
+  /**
+   * Keep pixels as they are, or scale position and size with the constraint box (default 'absolute')
+   */
+  geometry?: GeometryMode
+  /**
+   * Screen pixels per local CSS pixel, e.g. 0.5 inside a parent with transform: scale(0.5),
+   * or 'auto' to detect it from the parent (default 'auto')
+   */
+  scale?: number | 'auto'
+  /**
+   * Grid size in px used by the 'snap' mode (default 10)
+   */
+  snapStep?: number
   constrainToViewport: boolean
   constrainToParent?: boolean
+  constrainTo?: ConstraintTarget | null
   autoAdjust?: AutoAdjustConfig
   resize?: ResizeConfig
+  rotation?: RotationConfig
+  keyboard?: KeyboardConfig
+  inertia?: InertiaConfig
+  autoScroll?: AutoScrollConfig
+  history?: HistoryConfig
+  windowState?: WindowStateConfig
+  dragHandle?: DragHandleConfig
+  dragActivation?: DragActivationConfig
+  gestureCancel?: GestureCancelConfig
 }
 
 /**
@@ -66,16 +292,53 @@ export interface ContainerState {
   y: number
   width: number
   height: number
+  /**
+   * Clockwise rotation in degrees around the center, x/y/width/height describe the unrotated box
+   */
+  angle?: number
+}
+
+/**
+ * Container geometry as fractions of the constraint box, 0..1 while inside it
+ */
+export interface RelativeState {
+  x: number
+  y: number
+  width: number
+  height: number
 }
 
+/**
+ * Rectangle a container is confined to
+ */
+export interface ConstraintRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Region a container is confined to: an element, a selector, a rectangle in the configured
+ * coordinate space (a DOMRect fits), or a function returning an element or a rectangle on every check
+ */
+export type ConstraintTarget = HTMLElement | string | ConstraintRect | (() => HTMLElement | ConstraintRect | null)
+
 /**
  * Event payload for container changes
  */
 export interface ContainerEvent {
-  type: 'drag' | 'resize' | 'modeChange' | 'viewportResize' | 'autoAdjust' | 'parentRecalculated' | 'stateChange'
+  type: 'drag' | 'resize' | 'rotate' | 'inertia' | 'animate' | 'windowState' | 'collapse' | 'fullscreen' | 'modeChange' | 'viewportResize' | 'autoAdjust' | 'parentRecalculated' | 'stateChange'
   state: ContainerState
   mode: MovementMode
   direction?: ResizeDirection
+  windowState?: WindowState
+  collapsed?: boolean
+  fullscreen?: boolean
+  /**
+   * Time progress 0..1 of an animation
+   */
+  progress?: number
   element: HTMLElement
 }
 
@@ -83,6 +346,37 @@ export interface PluginMiddleware {
   (data: any, event: string): any
 }
 
+/**
+ * Vetoable hooks run before an operation is applied
+ * beforeDrag and beforeResize run first, then beforeStateChange for every state write
+ */
+export type BeforeHookName = 'beforeDragStart' | 'beforeDrag' | 'beforeResize' | 'beforeStateChange'
+
+/**
+ * Proposed change passed to a before-hook
+ */
+export interface BeforeHookContext {
+  hook: BeforeHookName
+  /**
+   * Proposed state, already rewritten by the hooks that ran earlier
+   */
+  state: ContainerState
+  /**
+   * State before the change
+   */
+  current: ContainerState
+  mode: MovementMode
+  direction?: ResizeDirection
+  element: HTMLElement
+}
+
+/**
+ * Return false to cancel the operation, a state to replace the proposed one, or nothing to keep it
+ */
+export interface BeforeHook {
+  (context: BeforeHookContext): Partial<ContainerState> | false | void
+}
+
 /**
  * Base plugin interface that all plugins must implement
  */
@@ -98,25 +392,110 @@ export interface Plugin {
   destroy?(): void
 }
 
+/**
+ * Creates a plugin from the options saved in a descriptor
+ */
+export type PluginFactory = (options?: any) => Plugin
+
+/**
+ * Plugin factories by the description of their pluginId, e.g. 'SnappingPlugin'
+ */
+export type PluginRegistry = Record<string, PluginFactory>
+
+/**
+ * Installed plugin in a container descriptor
+ */
+export interface PluginDescriptor {
+  /**
+   * Description of the pluginId symbol, the key looked up in the registry
+   */
+  name: string
+  /**
+   * Options the plugin was installed with
+   */
+  options?: any
+}
+
+/**
+ * Serializable snapshot of a container manager, see toJSON() / fromJSON()
+ */
+export interface ContainerDescriptor {
+  version: number
+  config: ContainerConfig
+  /**
+   * Normal, expanded geometry, the one restore() and expand() return to
+   */
+  state: ContainerState
+  /**
+   * State as fractions of the constraint box in relative geometry, null otherwise
+   */
+  relative: RelativeState | null
+  windowState: WindowState
+  /**
+   * Box the container fills while maximized, or once restored when minimized from maximized
+   */
+  maximized: MaximizeTarget | null
+  collapsed: boolean
+  mode: MovementMode
+  direction: DirectionMode
+  plugins: PluginDescriptor[]
+}
+
 /**
  * Container Manager class interface for plugins
  */
 export interface ContainerManagerInterface {
   // Basic management and configuration methods
+  getConfig(): ContainerConfig
+  toJSON(): ContainerDescriptor
   getMode(): MovementMode
   setMode(mode: MovementMode): void
   getState(): ContainerState
   setState(state: Partial<ContainerState>): void
   getDirection(): DirectionMode
   setDirection(direction: DirectionMode): void
+  setSnapStep(step: number): void
+  getSnapStep(): number
   setAutoAdjust(config: AutoAdjustConfig): void
   setResizeConfig(config: ResizeConfig): void
   setConstrainToParent(enabled: boolean): void
   setConstrainToViewport(enabled: boolean): void
+  setConstrainTo(target: ConstraintTarget | null): void
   directionResolver(x: number, y: number): { clientX: number; clientY: number }
-  recalculateForParent(): void
+  recalculateForParent(animation?: AnimationOptions): void
+  animateTo(state: Partial<ContainerState>, options?: AnimationOptions): Promise<boolean>
+  stopAnimation(): void
+  getWindowState(): WindowState
+  getRestoreState(): ContainerState | null
+  maximize(target?: MaximizeTarget, animation?: AnimationOptions): Promise<boolean>
+  minimize(): void
+  restore(animation?: AnimationOptions): Promise<boolean>
+  isCollapsed(): boolean
+  getExpandedHeight(): number | null
+  collapse(animation?: AnimationOptions): Promise<boolean>
+  expand(animation?: AnimationOptions): Promise<boolean>
+  toggleCollapse(animation?: AnimationOptions): Promise<boolean>
+  isFullscreen(): boolean
+  enterFullscreen(): Promise<boolean>
+  exitFullscreen(): Promise<boolean>
   setBoundaries(boundaries: Partial<Boundaries>): void
   getContainer(): HTMLElement
+  getPositioning(): PositioningMode
+  getCoordinateSpace(): CoordinateSpace
+  getGeometry(): GeometryMode
+  getGeometryEngine(): GeometryEngine
+  getRelativeState(): RelativeState | null
+  setRelativeState(state: RelativeState): void
+  convertPoint(point: { x: number; y: number }, from: CoordinateSpace, to: CoordinateSpace): { x: number; y: number }
+  getScale(): { x: number; y: number }
+  getDragInput(): PointerInput | null
+  getDragHandles(): HTMLElement[]
+  isInertiaActive(): boolean
+  cancelGesture(duration?: number): boolean
+  getHistory(): History | null
+  setHistory(history: History | null): void
+  undo(): boolean
+  redo(): boolean
   bringToFront?(): void
   destroy?(): void
 
@@ -128,19 +507,24 @@ export interface ContainerManagerInterface {
   pipe(event: string, targetEmitter: ReactiveEventSystem<ContainerEvent>, targetEvent?: string): () => void
   getEventMetrics(): ReturnType<ReactiveEventSystem<ContainerEvent>['getMetrics']>
 
-  onDragStart(e: MouseEvent | TouchEvent): void
-  onDragMove(e: MouseEvent | TouchEvent): void
+  onDragStart(e: PointerEvent): void
+  onDragMove(e: PointerEvent): void
   onDragEnd(): void
 
-  onResizeStart(e: MouseEvent | TouchEvent, direction: ResizeDirection): void
-  onResizeMove(e: MouseEvent | TouchEvent): void
+  onResizeStart(e: PointerEvent, direction: ResizeDirection): void
+  onResizeMove(e: PointerEvent): void
   onResizeEnd(): void
 
+  onRotateStart(e: PointerEvent): void
+  onRotateMove(e: PointerEvent): void
+  onRotateEnd(): void
+
   // Plugin management
   emitPluginEvent(event: string, data: any): void
   onPluginEvent(event: string, listener: Function): void
   offPluginEvent(event: string, listener: Function): void
   usePluginMiddleware(event: string, middleware: PluginMiddleware): () => void
+  useBeforeHook(name: BeforeHookName, hook: BeforeHook, order?: number): () => void
   use(plugin: Plugin, options?: any): ContainerManagerInterface
   hasPlugin(plugin: Plugin): boolean
   getInstalledPlugins(): Plugin[]
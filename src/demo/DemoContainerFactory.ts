@@ -1,5 +1,7 @@
 // noinspection JSUnusedGlobalSymbols
 
+import type { GeometryMode } from '../core/types'
+
 /**
  * Demo Container Factory for creating demo container content and configurations
  * Provides consistent content creation for both initial creation and restoration
@@ -16,6 +18,7 @@ export interface DemoContainerConfig {
   useSnapping?: boolean
   description?: string
   boundaries?: {}
+  geometry?: GeometryMode
 }
 
 /**
@@ -29,7 +32,8 @@ export class DemoContainerFactory
       title: 'String Content',
       color: '#3b82f6',
       useSnapping: false,
-      description: 'String content demo container'
+      geometry: 'relative',
+      description: 'String content demo container, rescaled with the viewport'
     },
     'demo-template-container': {
       type: 'template',
@@ -4,7 +4,8 @@ import { DemoContainerFactory } from './DemoContainerFactory'
 import {
   MovementMode,
   ContainerManager,
-  ContainerInitializer
+  ContainerInitializer,
+  History
 } from '../index'
 import {
   EdgeDockingPlugin,
@@ -29,9 +30,10 @@ import {
 import type {
   AutoAdjustConfig,
   Boundaries,
-  ContainerState,
   ContainerManagerInterface,
   DirectionMode,
+  GeometryMode,
+  RelativeState,
   ResizeConfig,
 } from '../core/types'
 
@@ -43,6 +45,11 @@ interface ContainerCreationParams {
   y?: number;
   width: number;
   height: number;
+  angle?: number;
+  relative?: RelativeState;
+  geometry?: GeometryMode;
+  maximized?: boolean;
+  collapsed?: boolean;
   content: string | HTMLElement | { template: string };
   type: 'string' | 'template' | 'element';
   title?: string;
@@ -69,10 +76,6 @@ interface DemoContainer {
   hasSnapping: boolean
   containerId: string
   isDemoContainer: boolean
-  maximizeState?: {
-    isMaximized: boolean
-    originalState: ContainerState
-  }
 }
 
 /**
@@ -103,10 +106,8 @@ class ContainerManagerDemo
   private currentHoveredContainerId: string | null = null
   private isAnyContainerDragging: boolean = false
 
-  private maximizeStates: Map<string, {
-    originalState: ContainerState
-    resizeHandler?: () => void
-  }> = new Map()
+  // Workspace history shared by all containers
+  private history: History = new History({ depth: 100 })
 
   static async init(): Promise<ContainerManagerDemo>
   {
@@ -613,12 +614,20 @@ class ContainerManagerDemo
     // Use the exact saved coordinates.
     const config = this.demoFactory.getDemoConfig(containerId)
 
+    // A maximized container is created at its normal geometry and maximized again
+    const geometry = savedState.restoreState ?? savedState
+
     // Use saved properties with precise positioning
     await this.createContainer({
-      x: savedState.x,
-      y: savedState.y,
-      width: savedState.width,
-      height: savedState.height,
+      x: geometry.x,
+      y: geometry.y,
+      width: geometry.width,
+      height: savedState.expandedHeight ?? geometry.height,
+      angle: geometry.angle,
+      relative: savedState.relative,
+      geometry: config?.geometry,
+      maximized: savedState.isMaximized,
+      collapsed: savedState.collapsed,
       content,
       type: savedState.containerType as 'string' | 'template' | 'element',
       title: savedState.title,
@@ -927,7 +936,8 @@ class ContainerManagerDemo
     container.dataset.title = config.title
     container.dataset.color = config.color
     container.dataset.useSnapping = String(config.useSnapping || false)
-    container.dataset.maximized = 'false'
+
+    manager.setHistory(this.history)
 
     // Install persistence plugin with demo flag
     manager.use(new StatePersistencePlugin(), {
@@ -1000,6 +1010,7 @@ class ContainerManagerDemo
       title: config.title,
       color: config.color,
       useSnapping: config.useSnapping,
+      geometry: config.geometry,
       resize: {
         enabled: true,
         directions: ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw']
@@ -1384,7 +1395,6 @@ class ContainerManagerDemo
     container.dataset.title = params.title || ''
     container.dataset.color = params.color || ''
     container.dataset.useSnapping = String(params.useSnapping || false)
-    container.dataset.maximized = 'false'
     container.dataset.containerId = containerId
 
     const shouldConstrainToViewport = params.constrainToViewport ?? !params.constrainToParent
@@ -1400,7 +1410,8 @@ class ContainerManagerDemo
       draggingDirection: initialDirection,
       constrainToParent: params.constrainToParent || false,
       autoAdjust: params.autoAdjust || { enabled: false, width: false, height: false },
-      resize: params.resize || { enabled: true, directions: ['se'] }
+      resize: params.resize || { enabled: true, directions: ['se'] },
+      geometry: params.geometry
     }) as ContainerManagerInterface
 
     // await ContainerInitializer.initializeContainer(
@@ -1418,9 +1429,17 @@ class ContainerManagerDemo
       x: params.x || 0,
       y: params.y || 0,
       width: params.width,
-      height: params.height
+      height: params.height,
+      angle: params.angle || 0
     })
 
+    // A layout saved on another screen size is rescaled to this one
+    if (params.relative) {
+      manager.setRelativeState(params.relative)
+    }
+
+    manager.setHistory(this.history)
+
     // Install persistence plugin with demo flag
     manager.use(new StatePersistencePlugin(), {
       containerId,
@@ -1457,6 +1476,13 @@ class ContainerManagerDemo
       initialDirection
     )
 
+    // Restoring a saved layout is not a step to undo
+    if (params.maximized) {
+      this.history.ignore(() => manager.maximize(undefined, { duration: 0 }))
+    } else if (params.collapsed) {
+      this.history.ignore(() => manager.collapse({ duration: 0 }))
+    }
+
     this.containers.push({
       _uid: containerId,
       containerId,
@@ -1534,6 +1560,14 @@ class ContainerManagerDemo
     maximizeButton.style.backgroundColor = 'transparent'
     modeControls.appendChild(maximizeButton)
 
+    // Fullscreen button, found by its class when events are set up
+    const fullscreenButton = document.createElement('button')
+    fullscreenButton.className = 'mode-btn fullscreen-btn'
+    fullscreenButton.innerHTML = '<i class="fa-solid fa-expand"></i>'
+    fullscreenButton.title = 'Toggle Fullscreen'
+    fullscreenButton.style.backgroundColor = 'transparent'
+    modeControls.appendChild(fullscreenButton)
+
     // Pin button
     const pinButton = document.createElement('button')
     pinButton.className = 'mode-btn pin-btn'
@@ -1600,8 +1634,7 @@ class ContainerManagerDemo
     const controlButtons = [pinButton, directionButton, maximizeButton, closeButton]
 
     controlButtons.forEach(button => {
-      button.addEventListener('mousedown', (e) => {
-        e.stopPropagation()
+      button.addEventListener('pointerdown', () => {
         this.cancelHideTimeout()
         this.showContainerStats(containerId)
       })
@@ -1625,7 +1658,8 @@ class ContainerManagerDemo
       e.preventDefault()
 
       const currentMode = manager.getMode()
-      const newMode: MovementMode = currentMode === 'pinned' ? 'smooth' : 'pinned'
+      const unpinnedMode: MovementMode = manager.getSnappingConfig?.()?.enabled ? 'snap' : 'smooth'
+      const newMode: MovementMode = currentMode === 'pinned' ? unpinnedMode : 'pinned'
       const icon: Element = pinButton.firstElementChild
 
       manager.setMode(newMode)
@@ -1647,17 +1681,6 @@ class ContainerManagerDemo
       this.updateStats()
     })
 
-    // Mousedown handlers to prevent dragging
-    pinButton.addEventListener('mousedown', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
-    pinButton.addEventListener('touchstart', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
     directionButton.addEventListener('click', (e) => {
       e.stopPropagation()
       e.preventDefault()
@@ -1686,17 +1709,6 @@ class ContainerManagerDemo
       this.updateSnappingStatus()
     })
 
-    // Mousedown handlers to prevent dragging for direction button
-    directionButton.addEventListener('mousedown', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
-    directionButton.addEventListener('touchstart', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
     // Handler for maximize button
     maximizeButton.addEventListener('click', (e) => {
       e.stopPropagation()
@@ -1706,18 +1718,7 @@ class ContainerManagerDemo
         this.showContainerStats(containerId)
       }
 
-      this.toggleMaximize(manager, container, maximizeButton)
-    })
-
-    // Mousedown handlers to prevent dragging for maximize button
-    maximizeButton.addEventListener('mousedown', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
-    maximizeButton.addEventListener('touchstart', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
+      this.toggleMaximize(manager)
     })
 
     // Handler for close button
@@ -1727,17 +1728,6 @@ class ContainerManagerDemo
       this.closeContainer(manager, container)
     })
 
-    // Mousedown handlers to prevent dragging for close button
-    closeButton.addEventListener('mousedown', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
-    closeButton.addEventListener('touchstart', (e) => {
-      e.stopPropagation()
-      e.preventDefault()
-    })
-
     const updateContainerStats = () => {
       if (this.currentHoveredContainerId === containerId) {
         this.showContainerStats(containerId)
@@ -1783,6 +1773,15 @@ class ContainerManagerDemo
       this.showContainerStats(containerId)
     })
 
+    // Escape or a second finger aborted the gesture
+    const onGestureCancel = () => {
+      this.isAnyContainerDragging = false
+      this.showContainerStats(containerId)
+    }
+
+    manager.on('dragCancel', onGestureCancel)
+    manager.on('resizeCancel', onGestureCancel)
+
     manager.on('viewportResize', (/* event: any */) => {
       // Container adjusted due to viewport resize
     })
@@ -1795,201 +1794,69 @@ class ContainerManagerDemo
       // Container recalculated for parent
     })
 
-    // Events for restoring maximize state from persistence
-    manager.onPluginEvent('restoreMaximize', (data: { isMaximized: boolean }) => {
-      if (data.isMaximized) {
-        this.maximizeContainer(manager, container, maximizeButton)
-      }
+    // Maximize and restore may come from the button, a drag or undo
+    manager.on('maximizeChanged', ({ windowState }) => {
+      this.syncMaximizeButton(maximizeButton, windowState === 'maximized')
+      this.updateStats()
+      updateContainerStats()
     })
-  }
-
-  // ---------- METHODS OF CONTAINER SIZE MANAGEMENT ----------
 
-  /**
-   * Toggle maximize/restore for container
-   */
-  private toggleMaximize(
-    manager: ContainerManagerInterface,
-    container: HTMLElement,
-    maximizeButton: HTMLButtonElement
-  ): void {
-    const isMaximized = container.dataset.maximized === 'true'
-
-    if (isMaximized) {
-      this.restoreContainer(manager, container, maximizeButton)
-    } else {
-      this.maximizeContainer(manager, container, maximizeButton)
-    }
-  }
-
-  /**
-   * Maximize container to fill viewport - полностью в демо логике
-   */
-  private maximizeContainer(
-    manager: ContainerManagerInterface,
-    container: HTMLElement,
-    maximizeButton: HTMLButtonElement
-  ): void {
-    const containerId = container.dataset.containerId!
-
-    // Save current state BEFORE maximize for proper restore
-    const currentState = manager.getState()
-
-    // Save the initial state
-    this.maximizeStates.set(containerId, {
-      originalState: currentState
+    // Double-click on the title bar rolls the container up to it and back down
+    container.querySelector('.drag-handle')?.addEventListener('dblclick', (e) => {
+      if ((e.target as HTMLElement).closest('button')) return
+      manager.toggleCollapse()
     })
 
-    // Get viewport dimensions
-    const viewportWidth = window.innerWidth
-    const viewportHeight = window.innerHeight
+    manager.on('collapseChanged', updateContainerStats)
 
-    // Set container to fill viewport
-    container.style.position = 'fixed'
-    container.style.left = '0'
-    container.style.top = '0'
-    container.style.width = `${viewportWidth}px`
-    container.style.height = `${viewportHeight}px`
-    container.style.zIndex = '10000'
+    // Fullscreen needs the click itself as the user gesture
+    const fullscreenButton = container.querySelector<HTMLButtonElement>('.fullscreen-btn')
 
-    // Update container data
-    container.dataset.maximized = 'true'
+    fullscreenButton?.addEventListener('click', (e) => {
+      e.stopPropagation()
+      e.preventDefault()
 
-    const icon = maximizeButton.firstElementChild
-    if (icon) {
-      icon.classList.remove('fa-window-maximize')
-      icon.classList.add('fa-window-restore')
-    }
+      const request = manager.isFullscreen() ? manager.exitFullscreen() : manager.enterFullscreen()
 
-    // Notify persistence plugin
-    manager.emitPluginEvent('maximizeChanged', {
-      isMaximized: true,
-      originalState: currentState
+      request.then(changed => {
+        if (!changed) this.notificationSystem.show('Fullscreen is not available', 'warning')
+      })
     })
 
-    // Add resize handler for viewport changes
-    this.addMaximizeResizeHandler(container)
-
-    // Блокируем resize handles в maximize режиме
-    this.toggleResizeHandles(container, false)
-
-    this.updateStats()
-    this.notificationSystem.show('Container maximized', 'info')
-  }
-
-  /**
-   * Restore container to previous state - полностью в демо логике
-   */
-  private restoreContainer(
-    manager: ContainerManagerInterface,
-    container: HTMLElement,
-    maximizeButton: HTMLButtonElement
-  ): void {
-    const containerId = container.dataset.containerId!
-
-    // Restore to original state
-    const maximizeState = this.maximizeStates.get(containerId)
-
-    if (maximizeState) {
-      const originalState = maximizeState.originalState
-
-      container.style.position = 'absolute'
-      container.style.left = `${originalState.x}px`
-      container.style.top = `${originalState.y}px`
-      container.style.width = `${originalState.width}px`
-      container.style.height = `${originalState.height}px`
-      container.style.zIndex = ''
-
-      // Восстанавливаем исходное состояние в менеджере
-      manager.setState(originalState)
-
-      // Удаляем из хранилища
-      this.maximizeStates.delete(containerId)
-    }
-
-    // Update container data
-    container.dataset.maximized = 'false'
-
-    const icon = maximizeButton.firstElementChild
-    if (icon) {
-      icon.classList.remove('fa-window-restore')
-      icon.classList.add('fa-window-maximize')
-    }
-
-    // Notify persistence plugin
-    manager.emitPluginEvent('maximizeChanged', {
-      isMaximized: false
+    // Esc leaves fullscreen without the button
+    manager.on('fullscreenChange', ({ fullscreen }) => {
+      const icon = fullscreenButton?.firstElementChild
+      icon?.classList.toggle('fa-expand', !fullscreen)
+      icon?.classList.toggle('fa-compress', !!fullscreen)
     })
-
-    // Remove resize handler
-    this.removeMaximizeResizeHandler(container)
-
-    // Разблокируем resize handles
-    this.toggleResizeHandles(container, true)
-
-    this.updateStats()
-    this.notificationSystem.show('Container restored', 'info')
   }
 
-  /**
-   * Add resize handler for maximized container
-   */
-  private addMaximizeResizeHandler(container: HTMLElement): void {
-    const handler = () => {
-      if (container.dataset.maximized === 'true') {
-        const viewportWidth = window.innerWidth
-        const viewportHeight = window.innerHeight
-
-        container.style.width = `${viewportWidth}px`
-        container.style.height = `${viewportHeight}px`
-      }
-    }
-
-    // Store handler for later removal
-    const containerId = container.dataset.containerId
-    if (containerId) {
-      const maximizeState = this.maximizeStates.get(containerId)
-
-      if (maximizeState) {
-        maximizeState.resizeHandler = handler
-      }
-
-      window.addEventListener('resize', handler)
-    }
-  }
+  // ---------- METHODS OF CONTAINER SIZE MANAGEMENT ----------
 
   /**
-   * Remove resize handler for restored container
+   * Toggle maximize/restore for container
    */
-  private removeMaximizeResizeHandler(container: HTMLElement): void
+  private toggleMaximize(manager: ContainerManagerInterface): void
   {
-    const containerId = container.dataset.containerId
-
-    if (containerId) {
-      const maximizeState = this.maximizeStates.get(containerId)
-
-      if (maximizeState?.resizeHandler) {
-        window.removeEventListener('resize', maximizeState.resizeHandler)
-        maximizeState.resizeHandler = undefined
-      }
+    if (manager.getWindowState() === 'maximized') {
+      manager.restore()
+      this.notificationSystem.show('Container restored', 'info')
+    } else {
+      manager.maximize()
+      this.notificationSystem.show('Container maximized', 'info')
     }
   }
 
   /**
-   * Toggle resize handles visibility
+   * Switch the maximize button icon between maximize and restore
    */
-  private toggleResizeHandles(container: HTMLElement, enabled: boolean): void {
-    const resizeHandles = container.querySelectorAll('.resize-handle') as NodeListOf<HTMLElement>
+  private syncMaximizeButton(maximizeButton: HTMLButtonElement, isMaximized: boolean): void
+  {
+    const icon = maximizeButton.firstElementChild
+    if (!icon) return
 
-    resizeHandles.forEach(handle => {
-      if (enabled) {
-        handle.style.display = 'block'
-        handle.style.pointerEvents = 'auto'
-      } else {
-        handle.style.display = 'none'
-        handle.style.pointerEvents = 'none'
-      }
-    })
+    icon.classList.toggle('fa-window-maximize', !isMaximized)
+    icon.classList.toggle('fa-window-restore', isMaximized)
   }
 
   // ---------- DATA INPUT METHODS ----------
@@ -2130,6 +1997,23 @@ class ContainerManagerDemo
       this.toggleGlobalPinnedMode()
     })
 
+    // Workspace undo / redo: Ctrl+Z, Ctrl+Shift+Z or Ctrl+Y
+    document.addEventListener('keydown', (e) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('input, textarea, [contenteditable]')) return
+
+      const key = e.key.toLowerCase()
+      const redo = key === 'y' || (key === 'z' && e.shiftKey)
+
+      if (key !== 'z' && !redo) return
+
+      e.preventDefault()
+      const done = redo ? this.history.redo() : this.history.undo()
+
+      if (done) {
+        this.updateStats()
+      }
+    })
+
     // User container creations
     document.getElementById('addStringContainer')!
       .addEventListener('click', async () => {
@@ -2277,9 +2161,6 @@ class ContainerManagerDemo
     setTimeout(() => {
       manager.destroy()
 
-      // Remove resize handler if container was maximized
-      this.removeMaximizeResizeHandler(container)
-
       if (container.parentNode) {
         container.parentNode.removeChild(container)
       }
@@ -2301,8 +2182,6 @@ class ContainerManagerDemo
    */
   private toggleGlobalPinnedMode(): void
   {
-    const newMode: MovementMode = this.isGlobalPinned ? 'pinned' : 'smooth'
-
     // Updating text and style of the button
     if (this.isGlobalPinned) {
       this.pinButton!.classList.add('btn-active')
@@ -2310,8 +2189,11 @@ class ContainerManagerDemo
       this.pinButton!.classList.remove('btn-active')
     }
 
-    // Setting the mode for all containers
-    this.containers.forEach(({ manager, element }) => {
+    // Setting the mode for all containers, undone as one step
+    this.history.group(() => this.containers.forEach(({ manager, element }) => {
+      const unpinnedMode: MovementMode = manager.getSnappingConfig?.()?.enabled ? 'snap' : 'smooth'
+      const newMode: MovementMode = this.isGlobalPinned ? 'pinned' : unpinnedMode
+
       manager.setMode(newMode)
 
       // Update individual pin buttons
@@ -2329,7 +2211,7 @@ class ContainerManagerDemo
       }
 
       element.setAttribute('data-mode', newMode)
-    })
+    }))
 
     this.updateStats()
   }
@@ -6,14 +6,39 @@
  */
 
 export { ContainerManager } from './core/ContainerManager'
+export { PointerInput } from './core/PointerInput'
+export { History } from './core/History'
+export { GeometryEngine } from './core/GeometryEngine'
+export type { ConstraintInput, GeometryRules, ResizeStep } from './core/GeometryEngine'
+export type { HistoryEntry, HistoryOptions, HistoryStep } from './core/History'
+export type { PointerGestureHandlers, PointerInputOptions } from './core/PointerInput'
 export type {
+  AnimationOptions,
+  BeforeHook,
+  BeforeHookContext,
+  BeforeHookName,
   ContainerConfig,
   ContainerManagerInterface,
   Plugin,
   ContainerEvent,
   ContainerState,
+  ContainerDescriptor,
+  PluginDescriptor,
+  PluginFactory,
+  PluginRegistry,
+  ConstraintRect,
+  ConstraintTarget,
+  CoordinateSpace,
+  EasingName,
+  GeometryMode,
+  HistoryConfig,
   Boundaries,
+  KeyboardConfig,
+  MaximizeTarget,
   MovementMode,
+  RelativeState,
+  WindowState,
+  WindowStateConfig,
 } from './core/types.ts'
 
 // Export content creation utilities
@@ -1,6 +1,7 @@
 // src/plugins/EdgeDockingPlugin.ts
 
 import { Plugin, ContainerManagerInterface } from '../core/types'
+import type { History } from '../core/History'
 import { type IEdgeController, createTracker } from '../utils'
 
 export type Edge = 'top' | 'bottom' | 'left' | 'right'
@@ -25,6 +26,9 @@ export interface DockedContainer {
 export interface EdgeDockingConfig {
   edgeThreshold?: number
   visiblePeek?: number
+  /**
+   * Duration in ms of the glide back when a container is undocked by undo, 0 jumps (default 200)
+   */
   animationDuration?: number
   enabled?: boolean
 }
@@ -41,12 +45,18 @@ export class EdgeDockingPlugin implements Plugin
   private occupiedEdges = new Map<Edge, HTMLElement | null>()
   private tracker: IEdgeController = createTracker({ emitter: true, edgeThreshold: 20 })
   private manager!: ContainerManagerInterface
+  // Dock the current drag released the container from, put back if the drag is cancelled
+  private undockedOnDragStart: DockedContainer | null = null
+  // History grouping the undock, the drag and a new dock of that drag into one step
+  private dragHistory: History | null = null
 
   private readonly edgeThreshold: number
+  private readonly animationDuration: number
 
   constructor(config: EdgeDockingConfig = {})
   {
     this.edgeThreshold = config.edgeThreshold ?? 30
+    this.animationDuration = config.animationDuration ?? 200
 
     // Initialize all edges as available
     this.occupiedEdges.set('top', null)
@@ -130,8 +140,19 @@ export class EdgeDockingPlugin implements Plugin
     })
 
     this.manager.on('dragEnd', (data: any) => {
+      // A gliding container docks where it comes to rest
+      if (!this.manager.isInertiaActive()) {
+        this.onDragEnd(data.element)
+      }
+    })
+
+    this.manager.on('inertiaEnd', (data: any) => {
       this.onDragEnd(data.element)
     })
+
+    this.manager.on('dragCancel', (data: any) => {
+      this.onDragCancel(data.element)
+    })
   }
 
   /**
@@ -169,8 +190,14 @@ export class EdgeDockingPlugin implements Plugin
     )
 
     const docked = this.dockedContainers.get(element)
+    this.undockedOnDragStart = docked ?? null
+
     if (docked) {
+      this.dragHistory = this.manager.getHistory()
+      this.dragHistory?.beginGroup()
+
       this.undockContainer(element, docked)
+      this.recordDocking(element, docked.edge, false, false)
     }
   }
 
@@ -201,8 +228,59 @@ export class EdgeDockingPlugin implements Plugin
       'edge-dock-hint-left', 'edge-dock-hint-right'
     )
 
+    const history = this.dragHistory
+    this.undockedOnDragStart = null
+    this.dragHistory = null
+
+    // Inside the group the drag entry moves the container, so docking must not glide on undo or redo
     if (edge && !this.isEdgeOccupied(edge)) {
       this.dockContainer(element, edge)
+      this.recordDocking(element, edge, true, !history)
+    }
+
+    history?.endGroup()
+  }
+
+  /**
+   * Record docking or undocking as an undoable step
+   */
+  private recordDocking(element: HTMLElement, edge: Edge, docked: boolean, animate: boolean = true): void
+  {
+    const dock = () => {
+      if (!this.isContainerDocked(element) && !this.isEdgeOccupied(edge)) {
+        this.dockContainer(element, edge)
+      }
+    }
+
+    const undock = () => {
+      const current = this.dockedContainers.get(element)
+      if (current) this.undockContainer(element, current, animate)
+    }
+
+    this.manager.getHistory()?.record({
+      type: docked ? 'dock' : 'undock',
+      target: this.manager,
+      undo: docked ? undock : dock,
+      redo: docked ? dock : undock
+    })
+  }
+
+  /**
+   * Handle drag cancel - never dock, return to the dock the drag started from
+   */
+  private onDragCancel(element: HTMLElement): void
+  {
+    this.updateEdgeHints(element, null)
+
+    const docked = this.undockedOnDragStart
+    this.undockedOnDragStart = null
+
+    // The undock recorded at drag start is dropped, the container is docked again right below
+    this.dragHistory?.cancelGroup()
+    this.dragHistory = null
+
+    if (docked && !this.isEdgeOccupied(docked.edge)) {
+      this.dockContainer(element, docked.edge)
     }
   }
 
@@ -229,6 +307,7 @@ export class EdgeDockingPlugin implements Plugin
 
   /**
    * Get the closest edge to the container
+   * Distances are measured on screen, so a scaled parent doesn't change how close an edge feels
    */
   private getClosestEdge(rect: DOMRect): Edge | null
   {
@@ -259,24 +338,23 @@ export class EdgeDockingPlugin implements Plugin
   private dockContainer(element: HTMLElement, edge: Edge): void
   {
     // Save current state before any modifications
+    // Geometry comes from the manager, so it is valid for both offset and transform positioning,
+    // and it is in the container's local pixels, which inline styles expect inside a scaled parent
     const style = window.getComputedStyle(element)
-    const rect = element.getBoundingClientRect()
+    const state = this.manager.getState()
 
-    // Save screen position for proper restoration
-    const screenPosition = {
-      x: rect.left,
-      y: rect.top
-    }
+    // Docking styles are offsets, so the position is taken out of the manager's coordinate space
+    const screenPosition = this.manager.convertPoint(state, this.manager.getCoordinateSpace(), 'offsetParent')
 
     this.dockedContainers.set(element, {
       element,
       edge,
       screenPosition,
       originalPosition: {
-        top: parseFloat(style.top) || rect.top,
-        left: parseFloat(style.left) || rect.left,
-        width: rect.width,
-        height: rect.height,
+        top: state.y,
+        left: state.x,
+        width: state.width,
+        height: state.height,
         transform: style.transform,
         position: style.position
       }
@@ -313,28 +391,28 @@ export class EdgeDockingPlugin implements Plugin
     edge: Edge,
     screenPosition: { x: number; y: number }
   ): void {
-    const rect = element.getBoundingClientRect()
+    const { width, height } = this.manager.getState()
 
     switch (edge) {
       case 'top':
         // For top edge - preserve horizontal position
         element.style.left = `${screenPosition.x}px`
-        element.style.width = `${rect.width}px`
+        element.style.width = `${width}px`
         break
       case 'bottom':
         // For bottom edge - preserve horizontal position
         element.style.left = `${screenPosition.x}px`
-        element.style.width = `${rect.width}px`
+        element.style.width = `${width}px`
         break
       case 'left':
         // For left edge - preserve vertical position
         element.style.top = `${screenPosition.y}px`
-        element.style.height = `${rect.height}px`
+        element.style.height = `${height}px`
         break
       case 'right':
         // For right edge - preserve vertical position
         element.style.top = `${screenPosition.y}px`
-        element.style.height = `${rect.height}px`
+        element.style.height = `${height}px`
         break
     }
   }
@@ -342,7 +420,7 @@ export class EdgeDockingPlugin implements Plugin
   /**
    * Undock container from edge
    */
-  private undockContainer(element: HTMLElement, docked: DockedContainer): void
+  private undockContainer(element: HTMLElement, docked: DockedContainer, animate: boolean = false): void
   {
     // Remove from docked containers
     this.dockedContainers.delete(element)
@@ -371,21 +449,28 @@ export class EdgeDockingPlugin implements Plugin
     element.style.position = ''
 
     // Restore position using saved screen coordinates to avoid shifting
-    this.restoreOriginalPosition(element, docked)
+    this.restoreOriginalPosition(element, docked, animate)
   }
 
   /**
    * Restore container to its original position without shifting
    */
-  private restoreOriginalPosition(_element: HTMLElement, docked: DockedContainer): void
+  private restoreOriginalPosition(_element: HTMLElement, docked: DockedContainer, animate: boolean = false): void
   {
-    // Use saved screen coordinates for precise position restoration
-    this.manager.setState({
-      x: docked.screenPosition.x,
-      y: docked.screenPosition.y,
+    // Use the saved manager state, the manager writes it back in its own positioning mode
+    const state = {
+      x: docked.originalPosition.left,
+      y: docked.originalPosition.top,
       width: docked.originalPosition.width,
       height: docked.originalPosition.height
-    })
+    }
+
+    // Undocking at drag start must jump, the pointer takes over right away
+    if (animate) {
+      this.manager.animateTo(state, { duration: this.animationDuration })
+    } else {
+      this.manager.setState(state)
+    }
   }
 
   /**
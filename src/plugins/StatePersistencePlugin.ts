@@ -2,12 +2,15 @@
 
 import { batch, effect, reactive } from '@alekstar79/reactive-event-system'
 import { debounce } from '../utils'
+import { EdgeDockingPlugin } from './EdgeDockingPlugin'
 
 import {
   ContainerManagerInterface,
+  ContainerState,
   Plugin,
   DirectionMode,
   MovementMode,
+  RelativeState,
   ResizeConfig,
 } from '../core/types'
 
@@ -19,9 +22,23 @@ export interface SavedContainerState {
   y: number
   width: number
   height: number
+  angle?: number
+  /**
+   * Geometry as fractions of the constraint box, restores the layout on other screen sizes
+   */
+  relative?: RelativeState
   mode: MovementMode
   draggingDirection: DirectionMode
   isMaximized: boolean
+  /**
+   * Geometry a maximized container restores to
+   */
+  restoreState?: ContainerState
+  collapsed?: boolean
+  /**
+   * Height a collapsed container expands to
+   */
+  expandedHeight?: number
   containerType: string
   title?: string
   color?: string
@@ -182,7 +199,12 @@ export class StatePersistencePlugin implements Plugin
     })
 
     this.manager.on('dragEnd', (/* event: any */) => {
-      // Force save on drag end for immediate persistence
+      // Force save on drag end for immediate persistence, unless the container keeps gliding
+      if (this.isDemoContainer && !this.manager?.isInertiaActive()) this.saveState()
+    })
+
+    this.manager.on('inertiaEnd', (/* event: any */) => {
+      // Save the resting position after a flick
       if (this.isDemoContainer) this.saveState()
     })
 
@@ -191,10 +213,22 @@ export class StatePersistencePlugin implements Plugin
       if (this.isDemoContainer) this.saveState()
     })
 
-    // Listen for maximize/restore events
-    this.manager.onPluginEvent('maximizeChanged', (/* data: { isMaximized: boolean } */) => {
+    // A cancelled gesture is back at its start geometry, overwrite anything auto-saved mid-gesture
+    const onCancel = () => {
       if (this.isDemoContainer) this.saveState()
-    })
+    }
+
+    this.manager.on('dragCancel', onCancel)
+    this.manager.on('resizeCancel', onCancel)
+
+    // Listen for maximize/restore and collapse/expand events
+    const onWindowState = () => {
+      if (this.isDemoContainer) this.saveState()
+    }
+
+    this.manager.on('maximizeChanged', onWindowState)
+    this.manager.on('minimizeChanged', onWindowState)
+    this.manager.on('collapseChanged', onWindowState)
 
     // Listen for direction changes
     this.manager.onPluginEvent('directionChanged', (/* data: { direction: string } */) => {
@@ -364,7 +398,7 @@ export class StatePersistencePlugin implements Plugin
       StatePersistencePlugin.reactiveState.pendingChanges = true
 
       const container = this.manager!.getContainer()
-      const isMaximized = container.dataset.maximized === 'true'
+      const isMaximized = this.manager!.getWindowState() === 'maximized'
 
       // Getting the current state
       const state = this.manager!.getState()
@@ -374,7 +408,7 @@ export class StatePersistencePlugin implements Plugin
       const title = container.dataset.title
       const color = container.dataset.color
       const useSnapping = container.dataset.useSnapping === 'true'
-      const resizeConfig = (this.manager as any).config?.resize
+      const resizeConfig = this.manager!.getConfig().resize
 
       // Get parent element ID if exists
       const parentElement = container.parentElement
@@ -384,9 +418,13 @@ export class StatePersistencePlugin implements Plugin
 
       const savedState: SavedContainerState = {
         ...state,
+        relative: this.manager!.getRelativeState() ?? undefined,
         mode,
         draggingDirection,
         isMaximized,
+        restoreState: this.manager!.getRestoreState() ?? undefined,
+        collapsed: this.manager!.isCollapsed(),
+        expandedHeight: this.manager!.getExpandedHeight() ?? undefined,
         containerType,
         title,
         color,
@@ -439,16 +477,17 @@ export class StatePersistencePlugin implements Plugin
     // Get additional container data from the container element
     const container = manager.getContainer()
     const draggingDirection = manager.getDirection()
-    const isMaximized = container.dataset.maximized === 'true'
+    const isMaximized = manager.getWindowState() === 'maximized'
     const containerType = container.dataset.containerType || 'unknown'
     const title = container.dataset.title
     const color = container.dataset.color
     const useSnapping = container.dataset.useSnapping === 'true'
-    const resizeConfig = (manager as any).config?.resize
+    const resizeConfig = manager.getConfig().resize
 
     // Get edge docking state
-    const isEdgeDocked = (manager as any).isEdgeDocked?.() || false
-    const dockEdge = (manager as any).getDockEdge?.() || null
+    const docking = manager.getInstalledPlugins().find(plugin => plugin instanceof EdgeDockingPlugin) as EdgeDockingPlugin | undefined
+    const dockEdge = docking?.getContainerDockEdge(container) ?? null
+    const isEdgeDocked = dockEdge !== null
 
     // Get parent element ID if exists
     const parentElement = container.parentElement
@@ -459,9 +498,13 @@ export class StatePersistencePlugin implements Plugin
     // Create the closed container state
     const closedState: SavedContainerState = {
       ...state,
+      relative: manager.getRelativeState() ?? undefined,
       mode,
       draggingDirection,
       isMaximized,
+      restoreState: manager.getRestoreState() ?? undefined,
+      collapsed: manager.isCollapsed(),
+      expandedHeight: manager.getExpandedHeight() ?? undefined,
       isEdgeDocked,
       dockEdge: dockEdge || undefined,
       containerType,
@@ -520,12 +563,12 @@ export class StatePersistencePlugin implements Plugin
 
           const container = manager.getContainer()
           const draggingDirection = manager.getDirection()
-          const isMaximized = container.dataset.maximized === 'true'
+          const isMaximized = manager.getWindowState() === 'maximized'
           const containerType = container.dataset.containerType || 'unknown'
           const title = container.dataset.title
           const color = container.dataset.color
           const useSnapping = container.dataset.useSnapping === 'true'
-          const resizeConfig = (manager as any).config?.resize
+          const resizeConfig = manager.getConfig().resize
 
           const parentElement = container.parentElement
           const parentElementId = parentElement && parentElement !== document.body
@@ -534,9 +577,13 @@ export class StatePersistencePlugin implements Plugin
 
           allStates[containerId] = {
             ...state,
+            relative: manager.getRelativeState() ?? undefined,
             mode,
             draggingDirection,
             isMaximized,
+            restoreState: manager.getRestoreState() ?? undefined,
+            collapsed: manager.isCollapsed(),
+            expandedHeight: manager.getExpandedHeight() ?? undefined,
             containerType,
             title,
             color,
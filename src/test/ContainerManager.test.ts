@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { ContainerManager } from '../core/ContainerManager'
+
+const managers: ContainerManager[] = []
+
+const createContainer = () => {
+  const element = document.createElement('div')
+  document.body.appendChild(element)
+  return element
+}
+
+const createManager = (config: ConstructorParameters<typeof ContainerManager>[1] = {}) => {
+  const manager = new ContainerManager(createContainer(), { _uid: 'original', ...config })
+  managers.push(manager)
+  return manager
+}
+
+const clone = (manager: ContainerManager, uid?: string) => {
+  const copy = ContainerManager.fromJSON(createContainer(), JSON.parse(JSON.stringify(manager)), {}, uid)
+  managers.push(copy)
+  return copy
+}
+
+const rect = (left: number, top: number, width: number, height: number) => ({
+  left, top, width, height, x: left, y: top, right: left + width, bottom: top + height, toJSON: () => ({})
+}) as DOMRect
+
+// jsdom has no ResizeObserver, nothing is resized here anyway
+beforeAll(() => {
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  })
+})
+
+afterEach(() => {
+  managers.splice(0).forEach(manager => manager.destroy())
+  vi.restoreAllMocks()
+  document.body.innerHTML = ''
+})
+
+describe('ContainerManager coordinate spaces', () => {
+  it('reads the initial state in local pixels under a scaled offset parent', () => {
+    const parent = document.createElement('div')
+    const element = document.createElement('div')
+
+    element.style.width = '240px'
+    element.style.height = '160px'
+    parent.appendChild(element)
+    document.body.appendChild(parent)
+
+    // Scaled by 0.5 the parent starts at 100, 50 on screen and the 240 x 160 container is centered at 200, 150
+    vi.spyOn(ContainerManager.prototype, 'getScale').mockReturnValue({ x: 0.5, y: 0.5 })
+    vi.spyOn(parent, 'getBoundingClientRect').mockReturnValue(rect(100, 50, 400, 300))
+    vi.spyOn(element, 'getBoundingClientRect').mockReturnValue(rect(140, 110, 120, 80))
+    Object.defineProperty(element, 'offsetParent', { get: () => parent })
+
+    const manager = new ContainerManager(element, { _uid: 'scaled' })
+    managers.push(manager)
+
+    // The center is 100, 100 screen pixels into the parent, 200, 200 local ones
+    expect(manager.getState()).toMatchObject({ x: 80, y: 120, width: 240, height: 160 })
+  })
+})
+
+describe('ContainerManager serialization', () => {
+  it('keeps the config arrays as they are through a round trip', () => {
+    const manager = createManager({
+      resize: { enabled: true, directions: ['se', 'e'] },
+      dragHandle: { ignore: ['.toolbar'] }
+    })
+    const copy = clone(clone(manager))
+
+    expect(copy.getConfig().resize?.directions).toEqual(['se', 'e'])
+    expect(copy.getConfig().dragHandle?.ignore).toEqual(['.toolbar'])
+    expect(copy.getContainer().querySelectorAll('[data-resize-handle]')).toHaveLength(2)
+  })
+
+  it('replaces the default arrays by the configured ones', () => {
+    expect(createManager({ resize: { directions: ['n'] } }).getConfig().resize?.directions).toEqual(['n'])
+  })
+
+  it('gives a clone a new _uid unless one is passed', () => {
+    const manager = createManager()
+
+    expect(clone(manager).getConfig()._uid).not.toBe('original')
+    expect(clone(manager, 'copy').getConfig()._uid).toBe('copy')
+  })
+
+  it('keeps the state and the window state', async () => {
+    const manager = createManager()
+    manager.setState({ x: 40, y: 30, width: 300, height: 200 })
+    await manager.maximize('viewport', { duration: 0 })
+
+    const copy = clone(manager)
+
+    expect(copy.getWindowState()).toBe('maximized')
+    expect(copy.getRestoreState()).toMatchObject({ x: 40, y: 30, width: 300, height: 200 })
+    expect(copy.getHistory()?.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,193 @@
+// @vitest-environment node
+
+import { describe, expect, it } from 'vitest'
+import { GeometryEngine, type ResizeStep } from '../core/GeometryEngine'
+import type { ContainerState } from '../core/types'
+
+const start: ContainerState = { x: 100, y: 100, width: 300, height: 200 }
+
+const step = (overrides: Partial<ResizeStep> = {}): ResizeStep => ({
+  direction: 'se',
+  mode: 'smooth',
+  ratio: null,
+  centered: false,
+  box: null,
+  ...overrides
+})
+
+const createEngine = () => new GeometryEngine({
+  boundaries: { minWidth: 100, minHeight: 50, maxWidth: 600, maxHeight: 400 },
+  snapStep: 20
+})
+
+describe('GeometryEngine', () => {
+  describe('move', () => {
+    it('moves by the delta in smooth mode', () => {
+      expect(createEngine().move(start, 15, -7, 'smooth')).toEqual({ ...start, x: 115, y: 93 })
+    })
+
+    it('moves by whole grid cells in snap mode', () => {
+      expect(createEngine().move(start, 37, 9, 'snap')).toEqual({ ...start, x: 140, y: 100 })
+    })
+
+    it('stays put in pinned mode', () => {
+      expect(createEngine().move(start, 50, 50, 'pinned')).toEqual(start)
+    })
+  })
+
+  describe('resize', () => {
+    it('keeps the top left corner from the south east handle', () => {
+      expect(createEngine().resize(start, 50, 30, step())).toEqual({ ...start, width: 350, height: 230 })
+    })
+
+    it('keeps the opposite edges from the north west handle, even at the minimum size', () => {
+      const state = createEngine().resize(start, 250, 250, step({ direction: 'nw' }))
+
+      expect(state).toEqual({ x: 300, y: 250, width: 100, height: 50 })
+      expect(state.x + state.width).toBe(start.x + start.width)
+      expect(state.y + state.height).toBe(start.y + start.height)
+    })
+
+    it('grows around the center in centered mode', () => {
+      expect(createEngine().resize(start, 20, 10, step({ centered: true }))).toEqual({
+        x: 80,
+        y: 90,
+        width: 340,
+        height: 220
+      })
+    })
+
+    it('keeps the locked aspect ratio', () => {
+      const state = createEngine().resize(start, 60, 0, step({ direction: 'e', ratio: 1.5 }))
+
+      expect(state.width).toBe(360)
+      expect(state.height).toBe(240)
+    })
+
+    it('keeps the ratio when the maximum size clamps it', () => {
+      const state = createEngine().resize(start, 900, 0, step({ direction: 'e', ratio: 1.5 }))
+
+      expect(state.width).toBe(600)
+      expect(state.height).toBe(400)
+    })
+
+    it('does not grow the anchored state out of the box', () => {
+      const box = { x: 0, y: 0, width: 450, height: 500 }
+
+      expect(createEngine().resize(start, 200, 0, step({ direction: 'e', box }))).toEqual({ ...start, width: 350 })
+    })
+
+    it('keeps the anchored corner of a rotated state in place', () => {
+      const rotated = { ...start, angle: 90 }
+      const state = createEngine().resize(rotated, 40, 0, step({ direction: 'e' }))
+
+      // Turned by 90 degrees the unrotated left edge is the top edge on screen, centered above
+      // the growing width, so the center moves down by half the growth
+      expect(state.width).toBe(340)
+      expect(state.x + state.width / 2).toBeCloseTo(start.x + start.width / 2)
+      expect(state.y + state.height / 2).toBeCloseTo(start.y + start.height / 2 + 20)
+    })
+  })
+
+  describe('constrain', () => {
+    it('moves the state back inside a region without shrinking it', () => {
+      const state = createEngine().constrain({ ...start, x: 400 }, { regions: [{ x: 0, y: 0, width: 500, height: 500 }] })
+
+      expect(state).toEqual({ ...start, x: 200 })
+    })
+
+    it('shrinks a state larger than the region', () => {
+      const state = createEngine().constrain(start, { regions: [{ x: 0, y: 0, width: 250, height: 500 }] })
+
+      expect(state).toEqual({ ...start, x: 0, width: 250 })
+    })
+
+    it('keeps the bounding box of a rotated state inside the viewport', () => {
+      const viewport = { x: 0, y: 0, width: 800, height: 600 }
+      const state = createEngine().constrain({ x: -200, y: 200, width: 300, height: 100, angle: 90 }, { viewport })
+
+      // Turned upright the 300 x 100 box covers 100 x 300, starting 100 right of x
+      expect(state.x).toBeCloseTo(-100)
+      expect(state.y).toBeCloseTo(200)
+      expect(state.width).toBe(300)
+    })
+
+    it('fits the locked ratio to a region from the fixed edges of the gesture', () => {
+      const engine = createEngine()
+      const square = { x: 0, y: 0, width: 300, height: 300 }
+      const regions = [{ x: 0, y: 0, width: 250, height: 500 }]
+
+      // The north west handle keeps the bottom edge, the south east one the top edge
+      expect(engine.constrain(square, { ratio: 1, direction: 'nw', regions })).toEqual({ x: 0, y: 50, width: 250, height: 250 })
+      expect(engine.constrain(square, { ratio: 1, direction: 'se', regions })).toEqual({ x: 0, y: 0, width: 250, height: 250 })
+    })
+
+    it('does not fit the locked ratio below the minimum size', () => {
+      const state = createEngine().constrain(
+        { x: 0, y: 0, width: 300, height: 100 },
+        { ratio: 3, regions: [{ x: 0, y: 0, width: 1000, height: 40 }] }
+      )
+
+      expect(state.height).toBe(50)
+      expect(state.width).toBe(150)
+    })
+
+    it('lets a collapsed height go below the minimum height', () => {
+      expect(createEngine().constrain({ ...start, height: 24 }, { minHeight: 24 }).height).toBe(24)
+    })
+  })
+
+  describe('clampSize', () => {
+    it('clamps each side to the boundaries', () => {
+      expect(createEngine().clampSize(50, 900)).toEqual({ width: 100, height: 400 })
+    })
+
+    it('applies an extra limit', () => {
+      expect(createEngine().clampSize(500, 300, null, { width: 250, height: 250 })).toEqual({ width: 250, height: 250 })
+    })
+
+    it('keeps the ratio, the minimums win over the maximums', () => {
+      expect(createEngine().clampSize(40, 40, 4)).toEqual({ width: 200, height: 50 })
+    })
+  })
+
+  describe('intersect', () => {
+    it('returns the overlap of boxes', () => {
+      expect(createEngine().intersect([
+        { x: 0, y: 0, width: 100, height: 100 },
+        { x: 50, y: 25, width: 100, height: 100 }
+      ])).toEqual({ x: 50, y: 25, width: 50, height: 75 })
+    })
+
+    it('returns an empty box for disjoint boxes and null for none', () => {
+      const engine = createEngine()
+
+      expect(engine.intersect([
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 20, y: 20, width: 10, height: 10 }
+      ])).toEqual({ x: 20, y: 20, width: 0, height: 0 })
+      expect(engine.intersect([])).toBeNull()
+    })
+  })
+
+  describe('relative geometry', () => {
+    const box = { x: 100, y: 50, width: 1000, height: 500 }
+
+    it('converts a state to fractions of the box and back', () => {
+      const engine = createEngine()
+      const relative = engine.toRelative({ x: 350, y: 150, width: 500, height: 250 }, box)
+
+      expect(relative).toEqual({ x: 0.25, y: 0.2, width: 0.5, height: 0.5 })
+      expect(engine.fromRelative(relative!, box)).toEqual({ x: 350, y: 150, width: 500, height: 250 })
+    })
+
+    it('scales fractions to another box', () => {
+      expect(createEngine().fromRelative({ x: 0.25, y: 0.2, width: 0.5, height: 0.5 }, { x: 0, y: 0, width: 400, height: 200 }))
+        .toEqual({ x: 100, y: 40, width: 200, height: 100 })
+    })
+
+    it('returns null for a box without size', () => {
+      expect(createEngine().toRelative(start, { x: 0, y: 0, width: 0, height: 100 })).toBeNull()
+    })
+  })
+})
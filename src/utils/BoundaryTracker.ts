@@ -55,6 +55,51 @@ function reducer(acc: Partial<SourceEdgeInfo>, [k, v]: [string, any]): Partial<S
   return v ? { ...acc, [k]: v } : acc
 }
 
+/**
+ * Distances from a rect to each edge of a width x height area, negative once past the edge
+ */
+export function getEdgeDistances(
+  rect: Pick<DOMRect, 'top' | 'right' | 'bottom' | 'left'>,
+  width: number,
+  height: number
+): Record<Edge, number> {
+  return {
+    top: rect.top,
+    right: width - rect.right,
+    bottom: height - rect.bottom,
+    left: rect.left
+  }
+}
+
+/**
+ * Check which edge zones of a width x height area a rect is in
+ * In a corner the nearest edge is the priority one
+ */
+export function getEdgeZones(
+  rect: Pick<DOMRect, 'top' | 'right' | 'bottom' | 'left'>,
+  width: number,
+  height: number,
+  threshold: number
+): EdgeZoneInfo {
+  const distances = getEdgeDistances(rect, width, height)
+
+  const zones: EdgeZoneInfo = {
+    top: distances.top < threshold,
+    right: distances.right < threshold,
+    bottom: distances.bottom < threshold,
+    left: distances.left < threshold,
+    edge: null
+  }
+
+  const edges = (['top', 'right', 'bottom', 'left'] as Edge[]).filter(edge => zones[edge])
+
+  if (edges.length) {
+    zones.edge = edges.reduce((prev, curr) => distances[curr] < distances[prev] ? curr : prev)
+  }
+
+  return zones
+}
+
 export class EdgeInfo implements SourceEdgeInfo
 {
   public source: 'element' | 'cursor' = 'cursor'
@@ -217,11 +262,11 @@ export class InternalBoundaryTracker implements IBoundaryTracker
   }
 
   /**
-   * Set up Mouse Tracking
+   * Set up pointer tracking (mouse, touch and pen)
    */
   private setupMouseTracking(): void
   {
-    document.addEventListener('mousemove', (e: MouseEvent) => {
+    document.addEventListener('pointermove', (e: PointerEvent) => {
       this.currentMousePos = { x: e.clientX, y: e.clientY }
     })
   }
@@ -312,23 +357,14 @@ export class InternalBoundaryTracker implements IBoundaryTracker
 
   /**
    * Check the boundaries of an element
+   * Bounding rects include transforms, so translate3d-positioned targets are tracked as well
    */
   private checkElementBoundaries(target: HTMLElement): EdgeZoneInfo
   {
     const { width: vw, height: vh } = this.getViewportSize()
     const rect = this.getRelativeRect(target)
 
-    const edge: EdgeZoneInfo = {
-      top: rect.top < this.edgeThreshold,
-      right: rect.right > vw - this.edgeThreshold,
-      bottom: rect.bottom > vh - this.edgeThreshold,
-      left: rect.left < this.edgeThreshold,
-      edge: null,
-    }
-
-    this.determineEdge(edge, rect, vw, vh)
-
-    return edge
+    return getEdgeZones(rect, vw, vh, this.edgeThreshold)
   }
 
   /**
@@ -337,20 +373,8 @@ export class InternalBoundaryTracker implements IBoundaryTracker
   private checkCursorBoundaries(): EdgeZoneInfo
   {
     const rect = this.getCursorBoundingClientRect()
-    const vw = window.innerWidth
-    const vh = window.innerHeight
-
-    const cursorEdge: EdgeZoneInfo = {
-      top: rect.top < this.edgeThreshold,
-      right: rect.right > vw - this.edgeThreshold,
-      bottom: rect.bottom > vh - this.edgeThreshold,
-      left: rect.left < this.edgeThreshold,
-      edge: null
-    }
-
-    this.determineEdge(cursorEdge, rect, vw, vh)
 
-    return cursorEdge
+    return getEdgeZones(rect, window.innerWidth, window.innerHeight, this.edgeThreshold)
   }
 
   /**
@@ -366,41 +390,6 @@ export class InternalBoundaryTracker implements IBoundaryTracker
     )
   }
 
-  /**
-   * Determine a priority edge-side (or several)
-   */
-  private determineEdge(
-    edge: EdgeZoneInfo,
-    rect: DOMRect,
-    vw: number,
-    vh: number
-  ): void {
-    const edges: Edge[] = []
-
-    if (edge.top) edges.push('top')
-    if (edge.right) edges.push('right')
-    if (edge.bottom) edges.push('bottom')
-    if (edge.left) edges.push('left')
-
-    if (edges.length === 0) {
-      edge.edge = null
-    } else if (edges.length === 1) {
-      edge.edge = edges[0]
-    } else {
-      const distances = {
-        top: rect.top,
-        right: vw - rect.right,
-        bottom: vh - rect.bottom,
-        left: rect.left
-      }
-
-      // In the corner, the nearest edge is selected
-      edge.edge = edges.reduce((prev, curr) =>
-        distances[curr] < distances[prev] ? curr : prev
-      ) as Edge
-    }
-  }
-
   /**
    * Notify all subscribers of the change
    */
@@ -16,50 +16,14 @@ export class ContainerInitializer
     expectedState: Partial<ContainerState>
   ): Promise<void> {
 
-    // Step 1: Set initial styles
     container.style.position = 'absolute'
-    if (expectedState.width !== undefined) {
-      container.style.width = `${expectedState.width}px`
-    }
-    if (expectedState.height !== undefined) {
-      container.style.height = `${expectedState.height}px`
-    }
-    if (expectedState.x !== undefined) {
-      container.style.left = `${expectedState.x}px`
-    }
-    if (expectedState.y !== undefined) {
-      container.style.top = `${expectedState.y}px`
-    }
 
-    // Step 2: Force synchronous layout calculation
-    await this.forceLayout(container)
-
-    // Step 3: Get actual DOM state
-    const actualRect = container.getBoundingClientRect()
-    const actualState: ContainerState = {
-      width: actualRect.width,
-      height: actualRect.height,
-      x: actualRect.left,
-      y: actualRect.top
-    }
-
-    // Step 4: Initialize manager with actual DOM state
-    manager.setState(actualState)
+    // The manager converts from its coordinate space and writes offsets or a transform
+    manager.setState(expectedState)
 
-    // Step 5: Apply any constraints (like parent constraints)
-    if ((manager as any).config?.constrainToParent) {
-      manager.recalculateForParent()
-
-      // Step 6: Re-synchronize after constraints
-      await this.forceLayout(container)
-      const finalRect = container.getBoundingClientRect()
-      manager.setState({
-        width: finalRect.width,
-        height: finalRect.height,
-        x: finalRect.left,
-        y: finalRect.top
-      })
-    }
+    // Parent constraints measure the laid out parent
+    await this.forceLayout(container)
+    manager.recalculateForParent()
   }
 
   /**
@@ -35,7 +35,9 @@ export {
   EventEmitter,
   InternalBoundaryTracker,
   EdgeController,
-  createTracker
+  createTracker,
+  getEdgeDistances,
+  getEdgeZones
 } from './BoundaryTracker'
 
 export {